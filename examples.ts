@@ -26,37 +26,40 @@ $Y.try = function*<T>(promise: Promise<T>): Generator<Promise<Result<T, unknown>
 
 const $ = Bun.$.cwd(__dirname).nothrow();
 
-function Cmd(strings: TemplateStringsArray, ...args: string[]) {
+function Cmd(strings: TemplateStringsArray, ...args: Array<string | string[]>) {
   let usr_cmd = '';
   for (let i = 0; i < strings.length; ++i) {
     const str = strings[i];
     usr_cmd += str;
     if (i >= args.length) continue;
     const arg = args[i]!;
-    usr_cmd += arg;
+    usr_cmd += Array.isArray(arg) ? arg.join(' ') : arg;
   }
   console.log('[CMD]', usr_cmd);
   return $Y($(strings, ...args));
 }
 
-function CmdSilent(strings: TemplateStringsArray, ...args: string[]) {
+function CmdSilent(strings: TemplateStringsArray, ...args: Array<string | string[]>) {
   let usr_cmd = '';
   for (let i = 0; i < strings.length; ++i) {
     const str = strings[i];
     usr_cmd += str;
     if (i >= args.length) continue;
     const arg = args[i]!;
-    if (arg.length > __dirname.length && arg.startsWith(__dirname)) {
-      usr_cmd += '.' + arg.substring(__dirname.length);
-      continue;
-    }
-    usr_cmd += arg;
+    usr_cmd += (Array.isArray(arg) ? arg : [arg]).map(a => {
+      if (a.length > __dirname.length && a.startsWith(__dirname)) return '.' + a.substring(__dirname.length);
+      return a;
+    }).join(' ');
   }
   console.log('[CMD]', usr_cmd);
   return $Y($(strings, ...args).quiet());
 }
 
 
+function show_stdout(label: string, stdout: string): string {
+  return `    ${label}:\n` + stdout.replace(/\n$/, '').split('\n').map(line => `      | ${line}`).join('\n');
+}
+
 $$exec(function* main(args) {
   const opt = {
     recording: false,
@@ -136,14 +139,16 @@ $$exec(function* main(args) {
     { ext: 'js', name: 'JavaScript' },
     { ext: 'go', name: 'GoLang' },
   ] as const satisfies Array<{ name: string; ext: string; }>;
-  type TestsStatus = Record<string, { [K in typeof targets[number]['name']]: Status; }>;
+  type TargetName = typeof targets[number]['name'];
+  // Both targets have to print the same output, it is kept along with how each target did
+  type TestsStatus = Record<string, { [K in TargetName]: Status; } & { stdout?: string; }>;
   const success: TestsStatus = yield* (function*() {
-    if (opt.recording) return {};
     const exists = (yield* $Y(Bun.file(snap_path).exists()));
     if (!exists) return {};
     return yield* $Y(Bun.file(snap_path).json());
   })();
   const executed: TestsStatus = {};
+  const printed: Record<string, Partial<Record<TargetName, string>>> = {};
   for (const [input_path, test_name] of examples_paths) {
     if (!(test_name in success)) {
       success[test_name] = {
@@ -155,6 +160,7 @@ $$exec(function* main(args) {
       GoLang: 'untested',
       JavaScript: 'untested',
     };
+    printed[test_name] = {};
     for (const { ext, name } of targets) {
       const output_path = path.join(output_dir, test_name + '.' + ext);
       let output = yield* Cmd`${compiler_path} -o ${output_path} -t ${ext} ${input_path}`;
@@ -169,20 +175,35 @@ $$exec(function* main(args) {
           output = yield* Exec`bun run ${output_path}`;
           break;
 
-        case 'go':
-          output = yield* Exec`go run ${output_path}`;
-          break;
+        case 'go': {
+          // Examples importing other modules are emitted as a package directory
+          const package_dir = output_path.substring(0, output_path.length - '.go'.length);
+          const package_res = yield* $Y.try(fs.readdir(package_dir));
+          const sources = package_res.ok
+            ? package_res.value.filter(f => f.endsWith('.go')).map(f => path.join(package_dir, f))
+            : [output_path];
+          output = yield* Exec`go run ${sources}`;
+        } break;
 
         default:
           throw new Error(`No runner is setup for target ${name}`);
       }
       executed[test_name][name] = output.exitCode == 0 ? 'ok' : 'run fail';
+      printed[test_name][name] = output.stdout.toString();
     }
+    const { JavaScript: js_stdout, GoLang: go_stdout } = printed[test_name];
+    if (js_stdout !== undefined && js_stdout === go_stdout) executed[test_name].stdout = js_stdout;
   }
 
   if (opt.recording) {
+    const differing = Object.keys(executed).filter(test_name => executed[test_name]!.stdout === undefined);
+    if (differing.length > 0) {
+      console.error(`Not recording, the targets failed or print different output for: ${differing.join(', ')}`);
+      return 1;
+    }
+    // Examples that did not run keep what was recorded for them
     const f = Bun.file(path.join(__dirname, './examples.snap.json'));
-    const result = yield* $Y.try(f.write(JSON.stringify(executed, undefined, '  ')));
+    const result = yield* $Y.try(f.write(JSON.stringify({ ...success, ...executed }, undefined, '  ') + '\n'));
     if (!result.ok) {
       console.error('Failed to write onto output file');
       console.info(result.error);
@@ -192,11 +213,12 @@ $$exec(function* main(args) {
     return 0;
   }
 
+  let failed = false;
   for (const test_name of Object.keys(executed)) {
     const test = success[test_name]!;
     let buf = `${test_name}:`;
-    for (const target of Object.keys(test) as Array<keyof typeof test>) {
-      const success_status = test[target]!;
+    for (const { name: target } of targets) {
+      const success_status = test[target];
       const executd_status = executed[test_name]![target];
       const status: 'untested' | 'ok' | 'failed' = success_status == 'untested'
         ? (executd_status == 'untested' ? 'untested' : executd_status == 'ok' ? 'ok' : 'failed')
@@ -213,11 +235,28 @@ $$exec(function* main(args) {
       }
       if (status == 'failed') {
         buf += ` <- Got '${executd_status}' but Expected '${success_status}'`;
+        failed = true;
       }
     }
+
+    const stdout = executed[test_name]!.stdout;
+    const { JavaScript: js_stdout, GoLang: go_stdout } = printed[test_name]!;
+    if (js_stdout === undefined || go_stdout === undefined) {
+      // Targets that failed to build already fail on their status
+    } else if (stdout === undefined) {
+      buf += `\n  - stdout: failed <- The targets print different output\n${show_stdout('JavaScript', js_stdout)}\n${show_stdout('GoLang', go_stdout)}`;
+      failed = true;
+    } else if (test.stdout === undefined) {
+      buf += '\n  - stdout: untested <- Previously unrecorded';
+    } else if (stdout != test.stdout) {
+      buf += `\n  - stdout: failed <- Differs from the recorded output\n${show_stdout('Expected', test.stdout)}\n${show_stdout('Received', stdout)}`;
+      failed = true;
+    } else {
+      buf += '\n  - stdout: ok';
+    }
     console.log('[INFO]', buf);
   }
 
-  return 0;
+  return failed ? 1 : 0;
 });
 
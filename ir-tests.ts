@@ -174,11 +174,13 @@ async function main(argv: string[]): Promise<number> {
   let output_buffer = '';
   let exit_code = 0;
   for (const [test_name, file_path] of source_paths) {
+    // Diagnostics print the path they are given, a relative one keeps snapshots the same on every machine
+    const source_path = npath.relative(__dirname, file_path);
     let output;
     if (quiet) {
-      output = await log.cmd`${compiler_path} -debug-ir -o ${TESTS_FOLDER_PATH + '/'} ${file_path}`.nothrow().quiet();
+      output = await log.cmd`${compiler_path} -debug-ir -o ${TESTS_FOLDER_PATH + '/'} ${source_path}`.nothrow().quiet();
     } else {
-      output = await log.cmd`${compiler_path} -debug-ir -o ${TESTS_FOLDER_PATH + '/'} ${file_path}`.nothrow();
+      output = await log.cmd`${compiler_path} -debug-ir -o ${TESTS_FOLDER_PATH + '/'} ${source_path}`.nothrow();
     }
     const result: TestResult = {
       exit_code: output.exitCode,
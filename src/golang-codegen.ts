@@ -1,8 +1,15 @@
 import {
   type AstNode,
+  type FnCallNode,
+  type FnDeclNode,
+  type MatchNode,
+  type MethodCallNode,
   AstNodeKind,
+  is_result_ctor,
   pipe_node_to_fn_call_node,
   node_debug_fmt,
+  split_fn_type_name,
+  split_result_type_name,
 } from './parser';
 import type {
   CodeGen,
@@ -16,11 +23,75 @@ import { compiler_logger, ensure_valid_output_path_from_input_path, get_current_
 
 const get_indent_from_lvl = (lvl: number) => lvl == 0 ? '' : Array.from({ length: lvl }).map(() => '\t').join('');;
 
+// Written in place instead of declared once so that every file of a package can use it
+const GO_NUMBER_CONSTRAINT = '~int8 | ~uint8 | ~int32 | ~uint32 | ~int | ~uint | ~uintptr | ~float32 | ~float64';
+
+// Functions returning a result return `(T, error)`, results used as values are held in an efuResult. Errors of
+// any type are carried as an efuError holding them, and `?` panics with the error it propagates which the
+// deferred efuCatch of the function turns into its returned error
+const GO_RESULT_HELPERS = `type efuResult[T any] struct {
+	value T
+	err   error
+}
+
+func (r efuResult[T]) unpack() (T, error) { return r.value, r.err }
+
+func efuWrap[T any](value T, err error) efuResult[T] { return efuResult[T]{value, err} }
+
+type efuError[E any] struct{ value E }
+
+func (e efuError[E]) Error() string { return fmt.Sprint(e.value) }
+
+type efuPropagate struct{ err error }
+
+func efuTry[T any](value T, err error) T {
+	if err != nil {
+		panic(efuPropagate{err})
+	}
+	return value
+}
+
+func efuCatch(err *error) {
+	if r := recover(); r != nil {
+		p, ok := r.(efuPropagate)
+		if !ok {
+			panic(r)
+		}
+		*err = p.err
+	}
+}`;
+
+// Spells text as an interpreted go string literal, control characters are written as escapes
+function go_string_literal(text: string): string {
+  let quoted = '"';
+  for (const ch of text) {
+    switch (ch) {
+      case '"': quoted += '\\"'; break;
+      case '\\': quoted += '\\\\'; break;
+      case '\n': quoted += '\\n'; break;
+      case '\r': quoted += '\\r'; break;
+      case '\t': quoted += '\\t'; break;
+      default: {
+        const code = ch.codePointAt(0)!;
+        quoted += code < 0x20 || code == 0x7f ? `\\x${code.toString(16).padStart(2, '0')}` : ch;
+      }
+    }
+  }
+  return quoted + '"';
+}
+
+// Spells a code point as a go rune literal, characters that need escaping are written by their code point
+function go_rune_literal(code: number): string {
+  const ch = String.fromCodePoint(code);
+  if (code >= 0x20 && code != 0x7f && ch != "'" && ch != '\\') return `'${ch}'`;
+  return code <= 0xffff ? `'\\u${code.toString(16).padStart(4, '0')}'` : `'\\U${code.toString(16).padStart(8, '0')}'`;
+}
+
 function replace_print_calls(n: AstNode | null | undefined): boolean {
   if (!n) return false;
 
   switch (n.kind) {
-    case AstNodeKind.EOF: case 'fndclarg': case 'lit': return false;
+    case AstNodeKind.EOF: case 'fndclarg': case 'lit': case 'stdcl': case 'endcl': case 'undcl': case 'imprt': return false;
     case AstNodeKind.FuncDecl: return n.body.map(replace_print_calls).some(r => r);
     case AstNodeKind.VarDecl: return replace_print_calls(n.init);
     case AstNodeKind.Expr: return replace_print_calls(n.item);
@@ -43,6 +114,45 @@ function replace_print_calls(n: AstNode | null | undefined): boolean {
       return cond || body || othw;
     }
 
+    case AstNodeKind.Assign: return replace_print_calls(n.value);
+    case AstNodeKind.StructLit: return n.fields.map(f => replace_print_calls(f.value)).some(r => r);
+    case AstNodeKind.FieldAccess: return replace_print_calls(n.base);
+    case AstNodeKind.ArrayLit: return n.items.map(replace_print_calls).some(r => r);
+    case AstNodeKind.UnaryOp: return replace_print_calls(n.expr);
+    case AstNodeKind.Cast: return replace_print_calls(n.expr);
+    case AstNodeKind.Try: return replace_print_calls(n.expr);
+    // Interpolated strings are built with fmt.Sprintf
+    case AstNodeKind.Interp: return n.holes.map(replace_print_calls).some(r => r) || true;
+    case AstNodeKind.Index: {
+      const base = replace_print_calls(n.base);
+      const index = replace_print_calls(n.index);
+      return base || index;
+    }
+    case AstNodeKind.MethodCall: {
+      const base = replace_print_calls(n.base);
+      const args = n.args.map(replace_print_calls).some(r => r);
+      return base || args;
+    }
+
+    case AstNodeKind.Match: {
+      const subject = replace_print_calls(n.subject);
+      const arms = n.arms.map(arm => arm.body.map(replace_print_calls).some(r => r)).some(r => r);
+      return subject || arms;
+    }
+
+    case AstNodeKind.While: {
+      const cond = replace_print_calls(n.cond);
+      const body = n.body.map(replace_print_calls).some(r => r);
+      return cond || body;
+    }
+
+    case AstNodeKind.For: {
+      const start = replace_print_calls(n.start);
+      const end = replace_print_calls(n.end);
+      const body = n.body.map(replace_print_calls).some(r => r);
+      return start || end || body;
+    }
+
     case AstNodeKind.Ident: {
       if (n.ident == 'printf') {
         n.ident = 'fmt.Printf';
@@ -87,6 +197,9 @@ function replace_print_calls(n: AstNode | null | undefined): boolean {
               kind: 'fncal',
               args, name: 'fmt.Sprintf',
               pos: { ...n.pos },
+              lambda: null,
+              result: '()',
+              type_args: {},
             }];
             n.name = 'fmt.Println';
           }
@@ -103,73 +216,156 @@ function replace_print_calls(n: AstNode | null | undefined): boolean {
   throw new Error('Missing to handle kind ' + n.kind);
 }
 
+function create_file_codegen(
+  output_path: string,
+  imports: CodeGen['imports'],
+  types: CodeGen['types'],
+  vars: CodeGen['vars'],
+  funcs: CodeGen['funcs'],
+): CodeGen {
+  let buf = '';
+  return {
+    imports,
+    types,
+    vars,
+    funcs,
+    output_path,
+    write(code) {
+      buf += code;
+    },
+    async flush() {
+      const file = Bun.file(output_path);
+      const bytes = new TextEncoder().encode(buf);
+      const wrote = await file.write(bytes);
+      return wrote != bytes.length;
+    }
+  };
+}
+
 class GoCodegen implements TargetCodeGen {
   private cg: CodeGen | null;
+  // One per module, the last one holds the entry module
+  private files: CodeGen[];
+  // Set when a result type is emitted, the helpers results are built on are then emitted with the entry module
+  private uses_results: boolean;
+  private result_fns: WeakSet<FnDeclNode>;
+  // Function whose body is being emitted
+  private fn: FnDeclNode | null;
+  // Call returning a result emitted as the `(T, error)` it returns instead of being wrapped into an efuResult
+  private unwrapped: FnCallNode | MethodCallNode | null;
 
   constructor() {
     this.cg = null;
+    this.files = [];
+    this.uses_results = false;
+    this.result_fns = new WeakSet();
+    this.fn = null;
+    this.unwrapped = null;
   }
 
   setup_codegen(cfg: TargetCodeGenSetupConfig): boolean {
-    const { nodes, parser } = cfg;
-    const log = parser.logger;
+    this.uses_results = false;
     const output_path = ensure_valid_output_path_from_input_path(cfg.input_path, cfg.output_path, '.go');
+    // Programs made of several modules are emitted as a package directory holding a file per module
+    const package_dir = cfg.modules.length > 1 ? output_path.substring(0, output_path.length - '.go'.length) + '/' : null;
+
+    const files = [] as CodeGen[];
+    const file_names = new Set<string>();
+    for (const module of cfg.modules) {
+      const log = module.parser.logger;
+
+      let file_name = module.name;
+      for (let i = 2; file_names.has(file_name); ++i) file_name = `${module.name}_${i}`;
+      file_names.add(file_name);
+
+      const imports = new Set<string>();
+      const types = [] as CodeGen['types'];
+      const vars = [] as CodeGen['vars'];
+      const funcs = [] as CodeGen['funcs'];
+
+      for (const node of module.nodes) {
+        if (replace_print_calls(node)) {
+          imports.add('fmt');
+        }
 
-    const imports = new Set<string>();
-    const vars = [] as CodeGen['vars'];
-    const funcs = [] as CodeGen['funcs'];
+        this.adapt_node_native_type_names(node);
 
-    for (const node of nodes) {
-      if (replace_print_calls(node)) {
-        imports.add('fmt');
-      }
+        if (node.kind == 'eof') break;
+        if (node.kind == 'imprt') continue;
 
-      this.adapt_node_native_type_names(node);
+        if (node.kind == 'stdcl' || node.kind == 'endcl' || node.kind == 'undcl') {
+          types.push(node);
+          continue;
+        }
 
-      if (node.kind == 'eof') break;
+        if (node.kind == 'vardcl') {
+          vars.push(node);
+          continue;
+        }
 
-      if (node.kind == 'vardcl') {
-        vars.push(node);
-        continue;
-      }
+        if (node.kind == 'fndcl') {
+          funcs.push(node);
 
-      if (node.kind == 'fndcl') {
-        funcs.push(node);
+          // This is just a way of unhandling missing types but the type system is written this should be an error
+          for (const arg of node.args) {
+            if (arg.type === '()') arg.type = 'int';
+          }
 
-        // This is just a way of unhandling missing types but the type system is written this should be an error
-        for (const arg of node.args) {
-          if (arg.type === '()') arg.type = 'int';
+          continue;
         }
 
-        continue;
+        log.error(node.pos, `Unsupported code emission for top level node: ${node_debug_fmt(node)}`);
+        return true;
       }
 
-      log.error(node.pos, `Unsupported code emission for top level node: ${node_debug_fmt(node)}`);
-      return true;
+      files.push(create_file_codegen(package_dir ? package_dir + file_name + '.go' : output_path, imports, types, vars, funcs));
     }
 
-    let buf = '';
-
+    const entry = files.at(-1)!;
+    if (this.uses_results) entry.imports.add('fmt');
+    this.files = files;
     this.cg = {
-      imports,
-      vars,
-      funcs,
-      output_path,
-      write(code) {
-        buf += code;
-      },
+      imports: entry.imports,
+      // Declarations of every module are visible to the others as they all live in the same package
+      types: files.flatMap(f => f.types),
+      vars: files.flatMap(f => f.vars),
+      funcs: files.flatMap(f => f.funcs),
+      output_path: package_dir ?? output_path,
+      write: entry.write,
       async flush() {
-        const file = Bun.file(output_path);
-        const bytes = new TextEncoder().encode(buf);
-        const wrote = await file.write(bytes);
-        return wrote != bytes.length;
+        for (const file of files) {
+          if (await file.flush()) return true;
+        }
+        return false;
       }
     };
 
     return false;
   }
 
-  adapt_native_type_name(type_name: PrimitiveType['base'] | (string & {})) {
+  adapt_native_type_name(type_name: PrimitiveType['base'] | (string & {})): string {
+    const fn_names = split_fn_type_name(type_name);
+    if (fn_names) {
+      const args = fn_names.args.map(a => this.adapt_native_type_name(a)).join(', ');
+      if (fn_names.returns == 'void') return `func(${args})`;
+      return `func(${args}) ${this.adapt_return_type_name(fn_names.returns, false)}`;
+    }
+
+    const result_names = split_result_type_name(type_name);
+    if (result_names) {
+      this.uses_results = true;
+      return `efuResult[${this.adapt_native_type_name(result_names.ok)}]`;
+    }
+
+    // Optionals point to their value and are nil when they hold nothing
+    if (type_name.endsWith('?')) return '*' + this.adapt_native_type_name(type_name.slice(0, -1));
+
+    // Both sized and unsized arrays are emitted as slices, sizes are only enforced by the type checker
+    const array_suffix = /\[\d*\]$/.exec(type_name);
+    if (array_suffix) {
+      return '[]' + this.adapt_native_type_name(type_name.substring(0, array_suffix.index));
+    }
+
     switch (type_name) {
       case 'ui8': return 'uint8';
       case 'si8': return 'int8';
@@ -186,11 +382,22 @@ class GoCodegen implements TargetCodeGen {
       case 'flt32': return 'float32';
       case 'flt64': return 'float64';
 
+      case 'char': return 'rune';
+
       // case '()': return '';
     }
     return type_name;
   }
 
+  // Results are returned as their value and an error, functions name them so that `?` can set the error
+  adapt_return_type_name(type_name: string, named: boolean): string {
+    const result_names = split_result_type_name(type_name);
+    if (!result_names) return this.adapt_native_type_name(type_name);
+    this.uses_results = true;
+    const ok = this.adapt_native_type_name(result_names.ok);
+    return named ? `(__res ${ok}, __err error)` : `(${ok}, error)`;
+  }
+
   // TODO: We should recieve the actual typed node produced by the TypeChecker
   adapt_node_native_type_names(node: AstNode | null) {
     if (!node) return;
@@ -205,20 +412,93 @@ class GoCodegen implements TargetCodeGen {
       } break;
       case AstNodeKind.FuncDecl: {
         if (node.returns == '()') unreachable('Failed to infer the return type of function ' + node.name);
-        node.returns = adapt_native_type_name(node.returns);
+        if (split_result_type_name(node.returns)) this.result_fns.add(node);
+        node.returns = this.adapt_return_type_name(node.returns, true);
+        adapt_node_native_type_names(node.receiver);
         for (const n of node.args) adapt_node_native_type_names(n);
         for (const n of node.body) adapt_node_native_type_names(n);
       } break;
       case AstNodeKind.VarDecl: {
         if (node.type.name == '()') unreachable('Failed to infer the type of variable ' + node.name);
+        if (!node.init && /\[\d+\]$/.test(node.type.name)) {
+          // A nil slice has no room for items so sized arrays get allocated through an empty literal
+          node.init = {
+            kind: AstNodeKind.ArrayLit,
+            pos: node.pos,
+            items: [],
+            type: node.type.name,
+          };
+        }
         node.type.name = adapt_native_type_name(node.type.name);
         adapt_node_native_type_names(node.init);
       } break;
       case AstNodeKind.IfElse: {
+        if (node.is_expr) node.type = adapt_native_type_name(node.type);
         adapt_node_native_type_names(node.cond);
         for (const n of node.body) adapt_node_native_type_names(n);
         if (node.else) for (const n of node.else) adapt_node_native_type_names(n);
       } break;
+      case AstNodeKind.StructDecl: {
+        for (const field of node.fields) field.type = adapt_native_type_name(field.type);
+      } break;
+      case AstNodeKind.UnionDecl: {
+        for (const variant of node.variants) variant.types = variant.types.map(adapt_native_type_name);
+      } break;
+      case AstNodeKind.Keyword: adapt_node_native_type_names(node.expr); break;
+      case AstNodeKind.Expr: adapt_node_native_type_names(node.item); break;
+      case AstNodeKind.Assign: adapt_node_native_type_names(node.value); break;
+      case AstNodeKind.Binop: {
+        if (node.op == '??') node.type = adapt_native_type_name(node.type);
+        adapt_node_native_type_names(node.lhs);
+        adapt_node_native_type_names(node.rhs);
+      } break;
+      case AstNodeKind.FuncCall: {
+        adapt_node_native_type_names(node.lambda);
+        for (const n of node.args) adapt_node_native_type_names(n);
+      } break;
+      case AstNodeKind.MethodCall: {
+        adapt_node_native_type_names(node.base);
+        for (const n of node.args) adapt_node_native_type_names(n);
+      } break;
+      case AstNodeKind.PipeOp: {
+        adapt_node_native_type_names(node.val);
+        adapt_node_native_type_names(node.next);
+      } break;
+      case AstNodeKind.ArrayLit: {
+        for (const n of node.items) adapt_node_native_type_names(n);
+      } break;
+      case AstNodeKind.StructLit: {
+        for (const field of node.fields) adapt_node_native_type_names(field.value);
+      } break;
+      case AstNodeKind.UnaryOp: adapt_node_native_type_names(node.expr); break;
+      case AstNodeKind.Try: adapt_node_native_type_names(node.expr); break;
+      case AstNodeKind.Interp: {
+        for (const n of node.holes) adapt_node_native_type_names(n);
+      } break;
+      case AstNodeKind.Cast: {
+        node.type = adapt_native_type_name(node.type);
+        adapt_node_native_type_names(node.expr);
+      } break;
+      case AstNodeKind.Index: {
+        adapt_node_native_type_names(node.base);
+        adapt_node_native_type_names(node.index);
+      } break;
+      case AstNodeKind.Match: {
+        node.type = adapt_native_type_name(node.type);
+        adapt_node_native_type_names(node.subject);
+        for (const arm of node.arms) {
+          for (const n of arm.body) adapt_node_native_type_names(n);
+        }
+      } break;
+      case AstNodeKind.While: {
+        adapt_node_native_type_names(node.cond);
+        for (const n of node.body) adapt_node_native_type_names(n);
+      } break;
+      case AstNodeKind.For: {
+        if (node.iter.type == '()') unreachable('Failed to infer the type of loop iterator ' + node.iter.name);
+        node.iter.type = adapt_native_type_name(node.iter.type);
+        for (const n of node.body) adapt_node_native_type_names(n);
+      } break;
     }
   }
 
@@ -230,16 +510,29 @@ class GoCodegen implements TargetCodeGen {
     switch (node.kind) {
       case AstNodeKind.EOF: return '';
       case AstNodeKind.FuncCall: {
+        const unwrapped = this.unwrapped == node;
         const args = [] as string[];
         for (const a of node.args) {
           const code = node_to_code(a);
           if (typeof code != 'string') return code;
           args.push(code);
         }
-        return indent + `${node.name}(${args.join(', ')})`;
+        if (node.result != '()' && is_result_ctor(node)) {
+          const { ok, err } = split_result_type_name(node.result)!;
+          const value_t = this.adapt_native_type_name(ok);
+          return indent + (node.name == 'ok'
+            ? `efuResult[${value_t}]{value: ${args[0]}}`
+            : `efuResult[${value_t}]{err: efuError[${this.adapt_native_type_name(err)}]{${args[0]}}}`);
+        }
+        const callee = node.lambda ? node_to_code(node.lambda, indent_lvl) : node.name;
+        if (typeof callee != 'string') return callee;
+        const call = `${callee.trimStart()}(${args.join(', ')})`;
+        return indent + (node.result == '()' || unwrapped ? call : `efuWrap(${call})`);
       }
 
       case AstNodeKind.FuncDecl: {
+        const outer_fn = this.fn;
+        this.fn = node;
         const args = [] as string[];
         for (const a of node.args) {
           const ac = node_to_code(a);
@@ -249,8 +542,10 @@ class GoCodegen implements TargetCodeGen {
 
         const body: string[] = []
         let full_body: string;
-        const last_stmt = node.body[node.body.length - 1]!
-        const tailcalling = (last_stmt.kind == 'fncal' && last_stmt.name == node.name && last_stmt.args.length == node.args.length);
+        const last_stmt = node.body[node.body.length - 1]
+        // The arguments of the tail call would be assigned outside of the block narrowing optionals
+        const guarded = node.body.some(n => n.kind == AstNodeKind.IfElse && n.narrowed?.after);
+        const tailcalling = (!node.receiver && !guarded && last_stmt?.kind == 'fncal' && last_stmt.name == node.name && last_stmt.args.length == node.args.length);
 
         if (tailcalling) {
           for (const b of node.body.slice(0, node.body.length - 1)) {
@@ -270,17 +565,17 @@ class GoCodegen implements TargetCodeGen {
 
           full_body = pipe(body.join('\n'), b => `${body_indent}for true {\n${b}\n${body_indent}}`);
         } else {
-          for (const b of node.body) {
-            const bc = node_to_code(b, indent_lvl + (tailcalling ? 2 : 1));
-            if (typeof bc != 'string') return bc;
-            body.push(bc);
-          }
-
-          full_body = body.join('\n');
+          const bc = this.block_to_code(node.body, indent_lvl + 1);
+          if (typeof bc != 'string') return bc;
+          full_body = bc;
         }
+        if (node.propagates) full_body = `${get_indent_from_lvl(indent_lvl + 1)}defer efuCatch(&__err)\n${full_body}`;
+        this.fn = outer_fn;
 
         const ret = node.returns == 'void' || node.returns == '()' ? '' : ' ' + node.returns;
-        return indent + `func ${node.name}(${args.join(', ')})${ret} {\n${full_body}\n${indent}}`;
+        const generics = node.generics.length == 0 ? '' : `[${node.generics.map(g => `${g.name} ${g.constraint == 'number' ? GO_NUMBER_CONSTRAINT : 'any'}`).join(', ')}]`;
+        const receiver = node.receiver ? `(${node.receiver.name} ${node.receiver.type}) ` : '';
+        return indent + `func ${receiver}${node.name}${generics}(${args.join(', ')})${ret} {\n${full_body}\n${indent}}`;
       }
 
       case AstNodeKind.FuncDclArg: return indent + `${node.name} ${node.type}`;
@@ -289,48 +584,268 @@ class GoCodegen implements TargetCodeGen {
         if (node.type == 'int') {
           return indent + node.value.toString(10);
         }
+        if (node.type == 'flt') {
+          // Go treats constants without a fraction or exponent as integers
+          const flt = node.value.toString();
+          return indent + (/[.e]|Infinity|NaN/.test(flt) ? flt : flt + '.0');
+        }
+        if (node.type == 'str') return indent + go_string_literal(node.value);
+        if (node.type == 'char') return indent + go_rune_literal(node.value);
+        if (node.type == 'null') return indent + 'nil';
         return indent + JSON.stringify(node.value);
       }
 
-      case AstNodeKind.Binop: return indent + node_to_code(node.lhs) + node.op + node_to_code(node.rhs);
-      case AstNodeKind.Keyword: return indent + node.word + (node.expr ? ' ' + node_to_code(node.expr) : '');
+      case AstNodeKind.Binop: {
+        if (node.op != '??') return indent + `${node_to_code(node.lhs)} ${node.op} ${node_to_code(node.rhs)}`;
+        // The default is only evaluated when the optional holds nothing
+        const value = node.type.startsWith('*') ? '__o' : '*__o';
+        return indent + `func() ${node.type} { if __o := ${node_to_code(node.lhs)}; __o != nil { return ${value} }; return ${node_to_code(node.rhs)} }()`;
+      }
+
+      case AstNodeKind.UnaryOp: {
+        const expr = node_to_code(node.expr);
+        if (typeof expr != 'string') return expr;
+        // Go spells bitwise not as `^` and `- -x` must not turn into a decrement
+        const op = node.op == '~' ? '^' : node.op;
+        return indent + (node.expr.kind == AstNodeKind.UnaryOp ? `${op}(${expr})` : `${op}${expr}`);
+      }
+      case AstNodeKind.Cast: return pipe(
+        node_to_code(node.expr),
+        // Wrapping a value into an optional points to a copy of it
+        expr => typeof expr != 'string' ? expr : node.type.startsWith('*')
+          ? `${indent}func() ${node.type} { var __v ${node.type.substring(1)} = ${expr}; return &__v }()`
+          // Printed optionals show what they point to and `null` like js does instead of `<nil>`
+          : node.type == 'any'
+          ? `${indent}func() any { if __o := ${expr}; __o != nil { return *__o }; return "null" }()`
+          : `${indent}${node.type}(${expr})`,
+      );
+      case AstNodeKind.Interp: {
+        const args = [] as string[];
+        for (const hole of node.holes) {
+          const code = node_to_code(hole);
+          if (typeof code != 'string') return code;
+          args.push(code);
+        }
+        const format = node.parts.map(part => part.replaceAll('%', '%%')).join('%v');
+        return indent + `fmt.Sprintf(${go_string_literal(format)}, ${args.join(', ')})`;
+      }
+      case AstNodeKind.Keyword: {
+        if (node.word == 'return' && node.expr && this.fn && this.result_fns.has(this.fn)) {
+          const value = this.result_to_code(node.expr);
+          if (typeof value != 'string') return value;
+          return indent + `return ${value}`;
+        }
+        // Go discards whatever deferred calls return so results are left as `(T, error)`
+        if (node.word == 'defer') {
+          this.unwrapped = node.expr as FnCallNode | MethodCallNode;
+          const call = node_to_code(node.expr);
+          this.unwrapped = null;
+          return typeof call != 'string' ? call : `${indent}defer ${call}`;
+        }
+        return indent + node.word + (node.expr ? ' ' + node_to_code(node.expr) : '');
+      }
+      case AstNodeKind.Try: return pipe(
+        this.result_to_code(node.expr),
+        value => typeof value != 'string' ? value : `${indent}efuTry(${value})`,
+      );
       case AstNodeKind.Ident: return indent + node.ident;
 
       case AstNodeKind.VarDecl: {
         if (!node.init) return `${indent}var ${node.name} ${node.type.name}`;
         const init = node_to_code(node.init);
         if (typeof init != 'string') return init;
+        const keyword = node.constant ? 'const' : 'var';
         if (node.type.name == '()' && indent_lvl > 0) {
-          return indent + `${node.name} := ${init}`;
+          return indent + (node.constant ? `const ${node.name} = ${init}` : `${node.name} := ${init}`);
         }
         if (node.type.name == '()') {
           throw new Error('Variable type has not been inferred');
         }
         const type_name = node.type.name;
-        return indent + `var ${node.name} ${type_name} = ${init}`;
+        return indent + `${keyword} ${node.name} ${type_name} = ${init}`;
       }
 
       case AstNodeKind.IfElse: {
         const cond = node_to_code(node.cond);
         const body: string[] = [];
-        for (const n of node.body) {
-          const nc = node_to_code(n, indent_lvl + 1);
-          if (typeof nc != 'string') return nc;
-          body.push(nc);
+        const othw: string[] = [];
+        // Expression ifs become a function literal returning the value of the branch taken
+        const branch_indent = node.is_expr ? indent + '\t' : indent;
+        // The branch where the optional holds a value reads the value through a variable shadowing it
+        if (node.narrowed) {
+          const { name, in_else } = node.narrowed;
+          (in_else ? othw : body).push(`${branch_indent}\t${name} := *${name}`, `${branch_indent}\t_ = ${name}`);
+        }
+        if (node.is_expr) {
+          const value = node_to_code(node.body[0]!);
+          if (typeof value != 'string') return value;
+          const other = node_to_code(node.else![0]!);
+          if (typeof other != 'string') return other;
+          body.push(`${branch_indent}\treturn ${value}`);
+          othw.push(`${branch_indent}\treturn ${other}`);
+          const chain = `${branch_indent}if (${cond}) {\n${body.join('\n')}\n${branch_indent}} else {\n${othw.join('\n')}\n${branch_indent}}`;
+          return indent + `func() ${node.type} {\n${chain}\n${indent}}()`;
         }
+        const bc = this.block_to_code(node.body, indent_lvl + 1);
+        if (typeof bc != 'string') return bc;
+        body.push(bc);
 
         if (!node.else) return `${indent}if (${cond}) {\n${body.join('\n')}\n${indent}}`;
 
-        const othw: string[] = [];
-        for (const n of node.else) {
-          const nc = node_to_code(n, indent_lvl + 1);
-          if (typeof nc != 'string') return nc;
-          othw.push(nc);
-        }
+        const ec = this.block_to_code(node.else, indent_lvl + 1);
+        if (typeof ec != 'string') return ec;
+        othw.push(ec);
 
         return `${indent}if (${cond}) {\n${body.join('\n')}\n${indent}} else {\n${othw.join('\n')}\n${indent}}`;
       }
 
+      case AstNodeKind.Assign: {
+        const target = node_to_code(node.target);
+        if (typeof target != 'string') return target;
+        if (!node.value) return indent + target + node.op;
+        const value = node_to_code(node.value);
+        if (typeof value != 'string') return value;
+        return indent + `${target} ${node.op} ${value}`;
+      }
+
+      case AstNodeKind.StructDecl: {
+        const fields = node.fields.map(f => `${indent}\t${f.name} ${f.type}`);
+        return `${indent}type ${node.name} struct {\n${fields.join('\n')}\n${indent}}`;
+      }
+
+      case AstNodeKind.EnumDecl: {
+        const values: string[] = [];
+        let prev_is_iota = false;
+        for (let i = 0; i < node.values.length; ++i) {
+          const { name, value } = node.values[i]!;
+          if (value == null) unreachable('Enum value ' + node.name + '.' + name + ' was not resolved by the type checker');
+          const is_iota = value == i;
+          if (is_iota && prev_is_iota) {
+            values.push(`${indent}\t${node.name}_${name}`);
+          } else {
+            values.push(`${indent}\t${node.name}_${name} ${node.name} = ${is_iota ? 'iota' : value.toString(10)}`);
+          }
+          prev_is_iota = is_iota;
+        }
+        return `${indent}type ${node.name} int\n\n${indent}const (\n${values.join('\n')}\n${indent})`;
+      }
+
+      // Every module is emitted into the same package so imports only matter to the type checker
+      case AstNodeKind.Import: return '';
+
+      case AstNodeKind.UnionDecl: {
+        const marker = `is${node.name}`;
+        const variants = node.variants.map(v => pipe(
+          v.types.map((t, i) => `${indent}\t_${i} ${t}`).join('\n'),
+          fields => fields.length == 0 ? `${indent}type ${node.name}_${v.name} struct{}` : `${indent}type ${node.name}_${v.name} struct {\n${fields}\n${indent}}`,
+          decl => `${decl}\n\n${indent}func (${node.name}_${v.name}) ${marker}() {}`,
+        ));
+        return `${indent}type ${node.name} interface {\n${indent}\t${marker}()\n${indent}}\n\n${variants.join('\n\n')}`;
+      }
+
+      case AstNodeKind.MethodCall: {
+        const unwrapped = this.unwrapped == node;
+        const base_node = node.base;
+        const args: string[] = [];
+        for (const a of node.args) {
+          const code = node_to_code(a);
+          if (typeof code != 'string') return code;
+          args.push(code);
+        }
+        if (base_node.kind != AstNodeKind.Ident || !this.is_union_name(base_node.ident)) {
+          const base = node_to_code(base_node);
+          if (typeof base != 'string') return base;
+          if (node.receiver == 'string') {
+            switch (node.name) {
+              case 'bytes': return indent + `[]uint8(${base})`;
+              case 'chars': return indent + `[]rune(${base})`;
+              case 'append': return indent + `(${base} + ${args[0]})`;
+            }
+            return new Error(`Unknown builtin string method ${node.name} in go codegen`);
+          }
+          const call = `${base}.${node.name}(${args.join(', ')})`;
+          return indent + (node.result == '()' || unwrapped ? call : `efuWrap(${call})`);
+        }
+        // Converting to the interface keeps `:=` declarations typed as the union and not the variant
+        return indent + `${base_node.ident}(${base_node.ident}_${node.name}{${args.join(', ')}})`;
+      }
+
+      case AstNodeKind.Match: {
+        if (!node.is_expr) return this.match_to_code(node, indent_lvl);
+
+        const chain = this.match_to_code(node, indent_lvl + 1);
+        if (typeof chain != 'string') return chain;
+        return indent + `func() ${node.type} {\n${chain}\n${indent}}()`;
+      }
+
+      case AstNodeKind.StructLit: {
+        const fields: string[] = [];
+        for (const f of node.fields) {
+          const value = node_to_code(f.value);
+          if (typeof value != 'string') return value;
+          fields.push(`${f.name}: ${value}`);
+        }
+        return indent + `${node.name}{${fields.join(', ')}}`;
+      }
+
+      case AstNodeKind.FieldAccess: {
+        const base_node = node.base;
+        if (base_node.kind == AstNodeKind.Ident && this.is_enum_name(base_node.ident)) {
+          return indent + `${base_node.ident}_${node.field}`;
+        }
+        if (base_node.kind == AstNodeKind.Ident && this.is_union_name(base_node.ident)) {
+          return indent + `${base_node.ident}(${base_node.ident}_${node.field}{})`;
+        }
+        const base = node_to_code(node.base);
+        if (typeof base != 'string') return base;
+        if (node.property && node.field == 'len') return indent + `uint(len(${base}))`;
+        return indent + `${base}.${node.field}`;
+      }
+
+      case AstNodeKind.ArrayLit: {
+        // The type of array literals is kept in the source form so its size is still known here
+        const type_name = this.adapt_native_type_name(node.type);
+        const size = /\[(\d+)\]$/.exec(node.type);
+        if (node.items.length == 0 && size) return indent + `make(${type_name}, ${size[1]})`;
+
+        const items: string[] = [];
+        for (const n of node.items) {
+          const code = node_to_code(n);
+          if (typeof code != 'string') return code;
+          items.push(code);
+        }
+        return indent + `${type_name}{${items.join(', ')}}`;
+      }
+
+      case AstNodeKind.Index: {
+        const base = node_to_code(node.base);
+        if (typeof base != 'string') return base;
+        const index = node_to_code(node.index);
+        if (typeof index != 'string') return index;
+        return indent + `${base}[${index}]`;
+      }
+
+      case AstNodeKind.While: {
+        const cond = node_to_code(node.cond);
+        if (typeof cond != 'string') return cond;
+        const body = this.block_to_code(node.body, indent_lvl + 1);
+        if (typeof body != 'string') return body;
+
+        return `${indent}for ${cond} {\n${body}\n${indent}}`;
+      }
+
+      case AstNodeKind.For: {
+        const start = node_to_code(node.start);
+        if (typeof start != 'string') return start;
+        const end = node_to_code(node.end);
+        if (typeof end != 'string') return end;
+        const body = this.block_to_code(node.body, indent_lvl + 1);
+        if (typeof body != 'string') return body;
+
+        const { name, type } = node.iter;
+        return `${indent}for ${name} := ${type}(${start}); ${name} < ${end}; ${name}++ {\n${body}\n${indent}}`;
+      }
+
       case AstNodeKind.PipeOp: {
         const fncall = pipe_node_to_fn_call_node(node);
         if (!fncall) return new Error('Failed to produce function call sequence from pipe operator chain');
@@ -351,14 +866,112 @@ class GoCodegen implements TargetCodeGen {
     return new Error('Do not know how to handle node of kind ' + kind + ' in go codegen');
   }
 
-  emit_code(): boolean {
+  // Spells a result as the `(T, error)` returned by functions returning results
+  result_to_code(node: AstNode): string | Error {
+    if (node.kind == AstNodeKind.FuncCall && is_result_ctor(node)) {
+      const held = this.node_to_code(node.args[0]!);
+      if (typeof held != 'string') return held;
+      if (node.name == 'ok') return `${held}, nil`;
+      const err = split_result_type_name(node.result)!.err;
+      return `__res, efuError[${this.adapt_native_type_name(err)}]{${held}}`;
+    }
+    if ((node.kind == AstNodeKind.FuncCall || node.kind == AstNodeKind.MethodCall) && node.result != '()') {
+      this.unwrapped = node;
+      const call = this.node_to_code(node);
+      this.unwrapped = null;
+      return call;
+    }
+    return pipe(this.node_to_code(node), value => typeof value != 'string' ? value : `${value}.unpack()`);
+  }
+
+  // The statements following `if a == null { return ..; }` go in a block of their own where `a` is shadowed by
+  // the value it holds, go does not allow shadowing it in the block declaring it
+  block_to_code(nodes: AstNode[], indent_lvl: number): string | Error {
+    const lines: string[] = [];
+    for (const [i, n] of nodes.entries()) {
+      const code = this.node_to_code(n, indent_lvl);
+      if (typeof code != 'string') return code;
+      lines.push(code);
+      if (n.kind != AstNodeKind.IfElse || !n.narrowed?.after || i + 1 == nodes.length) continue;
+
+      const rest = this.block_to_code(nodes.slice(i + 1), indent_lvl + 1);
+      if (typeof rest != 'string') return rest;
+      const indent = get_indent_from_lvl(indent_lvl);
+      const { name } = n.narrowed;
+      lines.push(`${indent}{`, `${indent}\t${name} := *${name}`, `${indent}\t_ = ${name}`, rest, `${indent}}`);
+      break;
+    }
+    return lines.join('\n');
+  }
+
+  is_enum_name(name: string): boolean {
+    return this.cg?.types.some(t => t.kind == AstNodeKind.EnumDecl && t.name == name) ?? false;
+  }
+
+  is_union_name(name: string): boolean {
+    return this.cg?.types.some(t => t.kind == AstNodeKind.UnionDecl && t.name == name) ?? false;
+  }
+
+  // Matches are emitted as a chain of type assertions over the variant structs instead of a type switch
+  // so that `break` inside of an arm still applies to the enclosing loop
+  match_to_code(node: MatchNode, indent_lvl: number): string | Error {
+    const indent = get_indent_from_lvl(indent_lvl);
+    const arm_indent = get_indent_from_lvl(indent_lvl + 1);
     const node_to_code = this.node_to_code.bind(this);
-    const cg = this.cg;
-    if (!cg) {
+
+    const subject = node_to_code(node.subject);
+    if (typeof subject != 'string') return subject;
+
+    // Results hold an error when they are not ok, errors are asserted back into the type they were built from
+    const result_names = split_result_type_name(node.union);
+    const err_t = result_names ? this.adapt_native_type_name(result_names.err) : '';
+
+    const branches: string[] = [];
+    let fallback: string | null = null;
+    for (const arm of node.arms) {
+      const body: string[] = [];
+      arm.bindings.forEach((name, i) => {
+        if (name == '_') return;
+        const value = !result_names ? `__v._${i}` : arm.variant == 'ok' ? '__m.value' : `__m.err.(efuError[${err_t}]).value`;
+        body.push(`${arm_indent}\t${name} := ${value}`, `${arm_indent}\t_ = ${name}`);
+      });
+      const code = node.is_expr
+        ? pipe(node_to_code(arm.body[0]!), c => typeof c == 'string' ? `${arm_indent}\treturn ${c}` : c)
+        : this.block_to_code(arm.body, indent_lvl + 2);
+      if (typeof code != 'string') return code;
+      body.push(code);
+
+      if (arm.variant == '_') {
+        fallback = body.join('\n');
+        continue;
+      }
+      const binds = arm.bindings.some(b => b != '_') ? '__v' : '_';
+      const cond = result_names ? `__m.err ${arm.variant == 'ok' ? '==' : '!='} nil` : `${binds}, ok := __m.(${node.union}_${arm.variant}); ok`;
+      branches.push(`if ${cond} {\n${body.join('\n')}\n${arm_indent}}`);
+    }
+    fallback ??= `${arm_indent}\tpanic("unreachable")`;
+
+    if (branches.length == 0) {
+      return `${indent}{\n${arm_indent}_ = ${subject}\n${fallback.replace(/^\t/gm, '')}\n${indent}}`;
+    }
+    return `${indent}{\n${arm_indent}__m := ${subject}\n${arm_indent}${branches.join(' else ')} else {\n${fallback}\n${arm_indent}}\n${indent}}`;
+  }
+
+  emit_code(): boolean {
+    if (!this.cg) {
       compiler_logger.error(get_current_line(), 'Attempting to emit golang code without having setup the golang codegen')
       return true;
     }
 
+    for (const file of this.files) {
+      if (this.emit_file(file)) return true;
+    }
+    return false;
+  }
+
+  emit_file(cg: CodeGen): boolean {
+    const node_to_code = this.node_to_code.bind(this);
+
     cg.write('package main\n\n');
 
     if (cg.imports.size > 0) {
@@ -374,6 +987,17 @@ class GoCodegen implements TargetCodeGen {
       }
     }
 
+    for (const tdcl of cg.types) {
+      const code = node_to_code(tdcl);
+      if (typeof code != 'string') {
+        compiler_logger.error(get_current_line(), code.message);
+        console.log(code.stack);
+        return true;
+      }
+      cg.write(`\n${code}\n`);
+    }
+    if (this.uses_results && cg == this.files.at(-1)) cg.write(`\n${GO_RESULT_HELPERS}\n`);
+
     for (const vrdcl of cg.vars) {
       const code = node_to_code(vrdcl);
       if (typeof code != 'string') {
@@ -1,9 +1,9 @@
 import { readdir, mkdir } from 'node:fs/promises';
 
-import { Lex } from "./lexer";
-import { node_debug_fmt, Parse, type AstNode, type SimpNode } from './parser';
-import { compiler_logger, get_current_line, type TargetCodeGen } from "./utils";
-import { check_types, create_global_context, get_type_name, register_global } from './typechecker';
+import { node_debug_fmt } from './parser';
+import { type TargetCodeGen } from "./utils";
+import { check_types, create_global_context, get_type_name, register_global, register_import, settle_global_ints, type TypesContext } from './typechecker';
+import { load_modules, type Module } from './modules';
 
 async function dir_exists(path: string) {
   try {
@@ -18,6 +18,7 @@ type CliArgs = {
   run: boolean;
   help: boolean;
   emit_ir: boolean;
+  strict: boolean;
   target: 'javascript' | 'golang';
   runtime: 'node' | 'bun' | 'deno';
   output: string;
@@ -27,6 +28,7 @@ const opt: CliArgs = {
   run: false,
   help: false,
   emit_ir: false,
+  strict: false,
   output: './build/',
   target: 'golang',
   runtime: 'node',
@@ -39,6 +41,7 @@ function usage() {
   console.log('   -run                 --- Attempt to run code after transpiling/compiling (abbrv: -r)');
   console.log('   -runtime             --- Specify what runtime to use when target is js. Defaults to node');
   console.log('   -debug-ir            --- Emit a debug IR representation, stops regular output production');
+  console.log('   -strict              --- Reject implicit integer conversions that may lose information, same as a `// @strict` line in every file');
   console.log('   -help                --- Display this help menu (abbrv: -h)');
 }
 
@@ -78,6 +81,11 @@ for (let i = 0; i < args.length; ++i) {
     continue;
   }
 
+  if (arg == '-strict') {
+    opt.strict = true;
+    continue;
+  }
+
   if (arg == '-t' || arg == '-target') {
     const t = args[++i];
     if (!t) {
@@ -146,63 +154,76 @@ if (!await file.exists()) {
   process.exit(1);
 }
 
-const content = await file.text();
-const lexer = Lex(content);
-const parser = Parse(input_path, lexer);
-
-let node: AstNode | null = null;
-const program = [] as SimpNode[];
-let errored = false;
-while (node?.kind !== 'eof') {
-  node = parser.parse_statement();
-  if (node == null) {
-    const tok = lexer.get_token();
-    // praser.logger.error(tok.pos, `Failed to parse a statement from token ${tok.kind}`);
-    compiler_logger.info(get_current_line(), `Failed to parse a statement from token ${tok.kind}`);
-
-    errored = true;
-    break;
-  }
-
-  if (node.kind != 'eof') program.push(node);
-}
-
-if (errored) {
-  console.log('[INFO] Parsing failed');
+const modules_result = await load_modules(input_path);
+if (!modules_result.ok) {
+  for (const e of modules_result.error) console.error(e);
+  console.log('[INFO] Loading modules failed');
   process.exit(1);
 }
+const modules = modules_result.value;
 
+let errored = false;
+const contexts = new Map<Module, TypesContext>();
+// Modules come after the modules they import, so the declarations they import are always type checked already
+for (const module of modules) {
+  const program = module.nodes;
+  const program_ctx = create_global_context(module.path, opt.strict || module.strict);
+  contexts.set(module, program_ctx);
+
+  for (const { node, module: imported } of module.imports) {
+    const result = register_import(program_ctx, node, contexts.get(imported)!, imported.nodes);
+    if (!result.ok) {
+      console.error('[DEBUG] Failed to import module', node.path);
+      for (const e of result.error) console.error(e);
+      process.exit(1);
+    }
+  }
 
-const program_ctx = create_global_context(input_path);
-for (const n of program) {
-  if (n.kind != 'fndcl' && n.kind != 'vardcl') continue;
-  const result = register_global(program_ctx, n);
-  if (!result.ok) {
-    if (n.kind == 'fndcl') console.error('[DEBUG] Failed to pregistered function', n.name + '(..)');
-    if (n.kind == 'vardcl') console.error('[DEBUG] Failed to pregistered variable', n.name);
-    for (const e of result.error) console.error(e);
-    process.exit(1);
+  // Types are registered first so that they can be used in any function or variable declaration
+  for (const n of program) {
+    if (n.kind != 'stdcl' && n.kind != 'endcl' && n.kind != 'undcl') continue;
+    const result = register_global(program_ctx, n);
+    if (!result.ok) {
+      console.error('[DEBUG] Failed to register type', n.name);
+      for (const e of result.error) console.error(e);
+      process.exit(1);
+    }
   }
-  if (!result.value) {
-    if (n.kind == 'fndcl') console.log(`[DEBUG] Did not pre-register \`function ${n.name}(..) -> unknown\` as it is unsupported`);
-    if (n.kind == 'vardcl') console.log(`[DEBUG] Did not pre-register variable ${n.name}: unknown`);
-    continue;
+
+  for (const n of program) {
+    if (n.kind != 'fndcl' && n.kind != 'vardcl') continue;
+    const result = register_global(program_ctx, n);
+    if (!result.ok) {
+      if (n.kind == 'fndcl') console.error('[DEBUG] Failed to pregistered function', n.name + '(..)');
+      if (n.kind == 'vardcl') console.error('[DEBUG] Failed to pregistered variable', n.name);
+      for (const e of result.error) console.error(e);
+      process.exit(1);
+    }
+    if (!result.value) {
+      if (n.kind == 'fndcl') console.log(`[DEBUG] Did not pre-register \`function ${n.name}(..) -> unknown\` as it is unsupported`);
+      if (n.kind == 'vardcl') console.log(`[DEBUG] Did not pre-register variable ${n.name}: unknown`);
+      continue;
+    }
   }
-}
 
-// let variables = 'Pre-registered variables are:';
-// for (const [var_name, var_node] of program_ctx.vars_list()) {
-//   variables += `\n    ${var_name}: ${get_type_name(var_node.type)}`;
-// }
-// console.log('[DEBUG]', variables);
+  // let variables = 'Pre-registered variables are:';
+  // for (const [var_name, var_node] of program_ctx.vars_list()) {
+  //   variables += `\n    ${var_name}: ${get_type_name(var_node.type)}`;
+  // }
+  // console.log('[DEBUG]', variables);
 
-for (const n of program) {
-  if (!check_types(program_ctx, n)) {
-    errored = true;
-    break;
+  for (const n of program) {
+    if (!check_types(program_ctx, n)) {
+      errored = true;
+      break;
+    }
   }
+  if (!errored && !settle_global_ints(program_ctx, program)) errored = true;
+  if (errored) break;
 }
 
+const program = modules.flatMap(m => m.nodes);
+
 if (opt.emit_ir) {
   let buf = '';
   for (const node of program) {
@@ -237,7 +258,8 @@ if (!target_codegen) {
 errored = target_codegen.setup_codegen({
   input_path, output_path: opt.output,
   nodes: program,
-  parser,
+  modules,
+  parser: modules.at(-1)!.parser,
 });
 
 if (errored) {
@@ -276,9 +298,13 @@ if (await codegen.flush()) {
 
 if (opt.run) {
   switch (opt.target) {
-    case 'golang':
-      await Bun.$`go run ${codegen.output_path}`;
-      break;
+    case 'golang': {
+      // Programs spanning several modules are emitted as a package directory
+      const sources = codegen.output_path.endsWith('/')
+        ? (await readdir(codegen.output_path)).filter(f => f.endsWith('.go')).map(f => codegen.output_path + f)
+        : [codegen.output_path];
+      await Bun.$`go run ${sources}`;
+    } break;
 
     case 'javascript':
       switch (opt.runtime) {
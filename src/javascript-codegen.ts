@@ -1,4 +1,4 @@
-import { AstNodeKind, pipe_node_to_fn_call_node, type AstNode } from './parser';
+import { AstNodeKind, is_bitwise_operator, is_math_operator, is_result_ctor, pipe_node_to_fn_call_node, type AstNode, type BitwiseOperator, type FnCallNode, type FnDeclNode, type MatchNode, type MathOperator, type MethodCallNode } from './parser';
 import {
   ensure_valid_output_path_from_input_path,
   get_current_line,
@@ -11,11 +11,122 @@ import {
 
 const get_indent_from_lvl = (lvl: number) => lvl <= 0 ? '' : Array.from({ length: lvl }).map(() => '  ').join('');
 
+function zero_value_of(type_name: string): string {
+  switch (type_name) {
+    case 'bool': return 'false';
+    case 'string': return "''";
+    case 'si8': case 'ui8': case 'si32': case 'ui32': case 'char': case 'flt32': case 'flt64':
+      return '0';
+    case 'sisz': case 'uisz': case 'ptr':
+      return '0n';
+  }
+  const size = /\[(\d+)\]$/.exec(type_name);
+  if (size) {
+    return `Array.from({ length: ${size[1]} }, () => ${zero_value_of(type_name.substring(0, size.index))})`;
+  }
+  return 'null';
+}
+
+// Numbers are doubles in js and its bitwise operators work on 32 bit signed integers, so 64 bit integers are
+// BigInts and the shifts of narrower ones are done on BigInts and truncated to the width of the type
+function bitwise_to_code(op: BitwiseOperator, lhs: string, rhs: string, type_name: string): string {
+  const unsigned = type_name.startsWith('ui') || type_name == 'ptr';
+  const bits = type_name.endsWith('8') ? 8 : type_name.endsWith('32') ? 32 : 64;
+  const truncate = unsigned ? 'BigInt.asUintN' : 'BigInt.asIntN';
+  const shift = op == '<<' || op == '>>';
+  // Shift counts can have any integer type
+  if (bits == 64) return `${truncate}(64, ${lhs} ${op} ${shift ? `BigInt(${rhs})` : rhs})`;
+  if (shift) return `Number(${truncate}(${bits}, BigInt(${lhs}) ${op} BigInt(${rhs})))`;
+  return unsigned && bits == 32 ? `((${lhs} ${op} ${rhs}) >>> 0)` : `(${lhs} ${op} ${rhs})`;
+}
+
+type IntLayout = { signed: boolean; bits: number };
+
+const INT_LAYOUTS: Record<string, IntLayout> = {
+  si8: { signed: true, bits: 8 },
+  ui8: { signed: false, bits: 8 },
+  si32: { signed: true, bits: 32 },
+  ui32: { signed: false, bits: 32 },
+  sisz: { signed: true, bits: 64 },
+  uisz: { signed: false, bits: 64 },
+  ptr: { signed: false, bits: 64 },
+  // Chars are held as their code point, a 32 bit signed integer like go's rune
+  char: { signed: true, bits: 32 },
+};
+
+// Integers do not wrap on their own in js, so a cast truncates the value to the width of the target
+// type unless every value of the source type already fits in it
+function cast_to_code(expr: string, to: string, from: string): string {
+  // Optionals hold their value as is and null when they hold nothing
+  if (to.endsWith('?')) return expr;
+  // Printed optionals show their value, null prints as `null`
+  if (to == 'any') return expr;
+  // Go turns code points that are not unicode scalar values into the replacement character
+  if (to == 'string') return `((ch) => ch >= 0 && ch <= 0x10FFFF && (ch < 0xD800 || ch > 0xDFFF) ? String.fromCodePoint(ch) : '\\uFFFD')(${expr})`;
+  const from_layout = INT_LAYOUTS[from];
+  // 64 bit integers are BigInts while every other number is a double
+  const from_big = from_layout?.bits == 64;
+  if (to == 'flt64') return from_big ? `Number(${expr})` : expr;
+  if (to == 'flt32') return `Math.fround(${from_big ? `Number(${expr})` : expr})`;
+
+  const to_layout = INT_LAYOUTS[to];
+  if (!to_layout) return expr;
+  const to_big = to_layout.bits == 64;
+  if (from_layout) {
+    const fits = from_layout.signed == to_layout.signed
+      ? from_layout.bits <= to_layout.bits
+      : !from_layout.signed && from_layout.bits < to_layout.bits;
+    if (fits) return from_big == to_big ? expr : `BigInt(${expr})`;
+  }
+
+  if (from_big && !to_big) {
+    return `Number(${to_layout.signed ? 'BigInt.asIntN' : 'BigInt.asUintN'}(${to_layout.bits}, ${expr}))`;
+  }
+  const value = from == 'flt32' || from == 'flt64' ? `Math.trunc(${expr})` : expr;
+  return wrap_int_to_code(to_big && !from_big ? `BigInt(${value})` : value, to_layout);
+}
+
+// Truncates an integer to the width of an integer type, 64 bit integers are held in BigInts and the narrower
+// ones in numbers
+function wrap_int_to_code(value: string, layout: IntLayout): string {
+  switch (layout.bits) {
+    case 8: return layout.signed ? `(${value} << 24 >> 24)` : `(${value} & 0xFF)`;
+    case 32: return layout.signed ? `(${value} | 0)` : `(${value} >>> 0)`;
+  }
+  return `${layout.signed ? 'BigInt.asIntN' : 'BigInt.asUintN'}(64, ${value})`;
+}
+
+// Integer operations wrap around the width of their type and integer divisions truncate like in go
+function math_to_code(op: MathOperator, lhs: string, rhs: string, type_name: string): string {
+  if (type_name == 'flt32') return `Math.fround(${lhs} ${op} ${rhs})`;
+  const layout = INT_LAYOUTS[type_name];
+  if (!layout) return `${lhs} ${op} ${rhs}`;
+  // Integer divisions by zero panic in go where numbers would give infinities, the check is left out for
+  // divisions by literals
+  if ((op == '/' || op == '%') && !/^-?[1-9]\d*n?$/.test(rhs)) rhs = `$$EibaFu.divisor(${rhs})`;
+  // The remainder of two integers always fits in their type
+  if (op == '%') return `${lhs} % ${rhs}`;
+
+  if (layout.bits == 64) return wrap_int_to_code(`${lhs} ${op} ${rhs}`, layout);
+  // Products of 32 bit integers can go past the 53 bits a double holds exactly
+  if (layout.bits == 32 && op == '*') {
+    return layout.signed ? `Math.imul(${lhs}, ${rhs})` : `(Math.imul(${lhs}, ${rhs}) >>> 0)`;
+  }
+  return wrap_int_to_code(`(${lhs} ${op} ${rhs})`, layout);
+}
+
 class JavascriptCodegen implements TargetCodeGen {
   private cg: CodeGen | null;
+  // Functions with `number` type parameters are emitted once for every set of types they are called with
+  // since the width of integers changes the code of their operations, the copies are kept by name
+  private copies: Map<string, { decl: FnDeclNode; type_args: Record<string, string> }>;
+  // Copy of a generic function being emitted
+  private copy: { name: string; decl: FnDeclNode; type_args: Record<string, string> } | null;
 
   constructor() {
     this.cg = null;
+    this.copies = new Map();
+    this.copy = null;
   }
 
   setup_codegen(cfg: TargetCodeGenSetupConfig): boolean {
@@ -23,12 +134,18 @@ class JavascriptCodegen implements TargetCodeGen {
     const output_path = ensure_valid_output_path_from_input_path(cfg.input_path, cfg.output_path, '.js');
 
     const imports = new Set<string>();
+    const types = [] as CodeGen['types'];
     const vars = [] as CodeGen['vars'];
     const funcs = [] as CodeGen['funcs'];
 
     for (const node of nodes) {
       if (node.kind == AstNodeKind.EOF) break;
 
+      if (node.kind == AstNodeKind.StructDecl || node.kind == AstNodeKind.EnumDecl || node.kind == AstNodeKind.UnionDecl) {
+        types.push(node);
+        continue;
+      }
+
       if (node.kind == AstNodeKind.VarDecl) {
         vars.push(node);
         continue;
@@ -41,8 +158,10 @@ class JavascriptCodegen implements TargetCodeGen {
     }
 
     let buf = '';
+    this.copies = new Map();
     this.cg = {
       imports,
+      types,
       vars,
       funcs,
       output_path,
@@ -69,7 +188,7 @@ class JavascriptCodegen implements TargetCodeGen {
       case AstNodeKind.FuncDclArg: code = node.name; break;
       case AstNodeKind.Literal: {
         if (node.type == 'int') {
-          code = node.value.toString(10);
+          code = INT_LAYOUTS[this.resolve_type(node.int_type)]?.bits == 64 ? `${node.value}n` : node.value.toString(10);
         } else {
           code = JSON.stringify(node.value);
         }
@@ -82,10 +201,62 @@ class JavascriptCodegen implements TargetCodeGen {
         if (typeof rhs != 'string') return rhs;
         const op = node.op;
 
-        code = `${lhs} ${op} ${rhs}`;
+        // The precedence of some operators differs from js (`a & b == c`), so nested operations are grouped
+        const lhs_code = node.lhs.kind == AstNodeKind.Binop ? `(${lhs})` : lhs;
+        const rhs_code = node.rhs.kind == AstNodeKind.Binop ? `(${rhs})` : rhs;
+        code = is_bitwise_operator(op)
+          ? bitwise_to_code(op, lhs_code, rhs_code, this.resolve_type(node.type))
+          : is_math_operator(op)
+            ? math_to_code(op, lhs_code, rhs_code, this.resolve_type(node.type))
+            : `${lhs_code} ${op} ${rhs_code}`;
+      } break;
+
+      case AstNodeKind.UnaryOp: {
+        const expr = node_to_code(node.expr);
+        if (typeof expr != 'string') return expr;
+        code = node.expr.kind == AstNodeKind.UnaryOp ? `${node.op}(${expr})` : `${node.op}${expr}`;
+
+        const layout = node.op != '!' ? INT_LAYOUTS[this.resolve_type(node.type)] : undefined;
+        if (layout) code = wrap_int_to_code(code, layout);
+      } break;
+
+      case AstNodeKind.Interp: {
+        const holes = [] as string[];
+        for (const hole of node.holes) {
+          const hc = node_to_code(hole, -1);
+          if (typeof hc != 'string') return hc;
+          holes.push(hc);
+        }
+        // JSON escapes are valid in template literals, only backticks and `${` have to be escaped on top
+        const parts = node.parts.map(part => JSON.stringify(part).slice(1, -1).replace(/`|\$\{/g, m => '\\' + m));
+        code = '`' + parts.map((part, i) => i < holes.length ? `${part}\${${holes[i]}}` : part).join('') + '`';
+      } break;
+
+      case AstNodeKind.Try: {
+        const expr = node_to_code(node.expr);
+        if (typeof expr != 'string') return expr;
+        code = `$$EibaFu.unwrap(${expr})`;
+      } break;
+
+      case AstNodeKind.Cast: {
+        const expr = node_to_code(node.expr);
+        if (typeof expr != 'string') return expr;
+        const to = this.resolve_type(node.type);
+        // Casting a struct into its own type copies it
+        if (to == node.from && this.is_struct_name(to)) {
+          code = `${to}$copy(${expr})`;
+          break;
+        }
+        code = cast_to_code(node.expr.kind == AstNodeKind.Binop ? `(${expr})` : expr, to, this.resolve_type(node.from));
       } break;
 
       case AstNodeKind.Keyword: {
+        if (node.word == 'defer') {
+          const res = this.defer_to_code(node.expr as FnCallNode | MethodCallNode, indent_lvl);
+          if (typeof res != 'string') return res;
+          code = res;
+          break;
+        }
         code = node.word;
         if (node.expr) {
           const expr = node_to_code(node.expr);
@@ -101,9 +272,13 @@ class JavascriptCodegen implements TargetCodeGen {
       } break;
 
       case AstNodeKind.VarDecl: {
+        if (!node.init) {
+          code = `let ${node.name} = ${zero_value_of(this.resolve_type(node.type.name))}`;
+          break;
+        }
         const init = node_to_code(node.init);
         if (typeof init != 'string') return init;
-        code = `let ${node.name} = ${init}`;
+        code = `${node.constant ? 'const' : 'let'} ${node.name} = ${init}`;
       } break;
 
       case AstNodeKind.FuncCall: {
@@ -113,8 +288,15 @@ class JavascriptCodegen implements TargetCodeGen {
           if (typeof ac != 'string') return ac;
           args.push(ac);
         }
+        // Results are tagged like the variants of unions so they are matched on the same way
+        if (is_result_ctor(node)) {
+          code = `{ tag: '${node.name}', values: [${args[0]}] }`;
+          break;
+        }
+        const callee = node.lambda ? node_to_code(node.lambda, indent_lvl) : this.callee_name(node);
+        if (typeof callee != 'string') return callee;
         code = pipe(
-          [node.name, args.join(', ')] as const,
+          [node.lambda ? `(${callee.trimStart()})` : callee, args.join(', ')] as const,
           ([name, args]) => `(yield* ${name}(${args}))`
         );
       } break;
@@ -140,8 +322,8 @@ class JavascriptCodegen implements TargetCodeGen {
         }
         const body = [] as string[];
         let full_body: string;
-        const last_stmt = node.body[node.body.length - 1]!
-        const tailcalling = (last_stmt.kind == 'fncal' && last_stmt.name == node.name && last_stmt.args.length == node.args.length);
+        const last_stmt = node.body[node.body.length - 1]
+        const tailcalling = (!node.receiver && last_stmt?.kind == 'fncal' && last_stmt.name == node.name && last_stmt.args.length == node.args.length);
 
         if (tailcalling) {
           for (const b of node.body.slice(0, node.body.length - 1)) {
@@ -169,14 +351,35 @@ class JavascriptCodegen implements TargetCodeGen {
 
           full_body = body.join(';\n') + ';';
         }
+        if (node.propagates || node.defers) {
+          const try_indent = get_indent_from_lvl(indent_lvl + 1);
+          full_body = `${try_indent}try {\n${full_body.replace(/^(?=.)/gm, '  ')}\n${try_indent}}`;
+          if (node.propagates) full_body += ` catch ($e) {\n${try_indent}  return $$EibaFu.caught($e);\n${try_indent}}`;
+          // Deferred calls run once the function has returned, through `?` as well
+          if (node.defers) {
+            full_body = `${try_indent}const $defers = [];\n${full_body} finally {\n${try_indent}  yield* $$EibaFu.unwind($defers);\n${try_indent}}`;
+          }
+        }
 
+        // Methods become functions taking the receiver as their first argument
+        if (node.receiver) args.unshift(node.receiver.name);
         code = pipe(
-          [node.name, args.join(', '), full_body] as const,
+          [node.receiver ? `${node.receiver.type}_${node.name}` : this.copy?.decl == node ? this.copy.name : node.name, args.join(', '), full_body] as const,
           ([name, args, body]) => `function* ${name}(${args}) {\n${body}\n${indent}}`,
         );
       } break;
 
       case AstNodeKind.IfElse: {
+        if (node.is_expr) {
+          const cond = node_to_code(node.cond);
+          if (typeof cond != 'string') return cond;
+          const value = node_to_code(node.body[0]!);
+          if (typeof value != 'string') return value;
+          const other = node_to_code(node.else![0]!);
+          if (typeof other != 'string') return other;
+          code = `(${cond} ? ${value} : ${other})`;
+          break;
+        }
         const if_body: string[] = [];
         for (const b of node.body) {
           const bc = node_to_code(b, indent_lvl + 1);
@@ -206,6 +409,165 @@ class JavascriptCodegen implements TargetCodeGen {
           ([cond, ifb, elseb]) => `if (${cond}) {${ifb}\n${indent}} else {\n${elseb}\n${indent}}`
         );
       } break;
+
+      case AstNodeKind.Assign: {
+        const target = node_to_code(node.target);
+        if (typeof target != 'string') return target;
+        const value = node.value ? node_to_code(node.value) : INT_LAYOUTS[this.resolve_type(node.type)]?.bits == 64 ? '1n' : '1';
+        if (typeof value != 'string') return value;
+
+        // Assignments on integers have to wrap like the operations they stand for
+        const type_name = this.resolve_type(node.type);
+        if (node.op != '=' && (INT_LAYOUTS[type_name] || type_name == 'flt32')) {
+          const op = node.op == '++' ? '+' : node.op == '--' ? '-' : node.op.slice(0, -1) as MathOperator;
+          const value_code = node.value?.kind == AstNodeKind.Binop ? `(${value})` : value;
+          code = `${target} = ${math_to_code(op, target, value_code, type_name)}`;
+          break;
+        }
+        code = node.value ? `${target} ${node.op} ${value}` : target + node.op;
+      } break;
+
+      // Structs are plain objects in javascript, their declarations emit the function copying them as go copies
+      // structs when they are stored or passed
+      case AstNodeKind.StructDecl: {
+        const fields = node.fields.map(f => `${f.name}: ${this.is_struct_name(f.type) ? `${f.type}$copy(v.${f.name})` : `v.${f.name}`}`);
+        code = `function ${node.name}$copy(v) {\n${indent}  return { ${fields.join(', ')} };\n${indent}}`;
+      } break;
+
+      case AstNodeKind.EnumDecl: {
+        const values: string[] = [];
+        for (const { name, value } of node.values) {
+          if (value == null) return new Error('Enum value ' + node.name + '.' + name + ' was not resolved by the type checker');
+          values.push(`${name}: ${value.toString(10)}`);
+        }
+        code = `const ${node.name} = Object.freeze({ ${values.join(', ')} })`;
+      } break;
+
+      // Union values are plain `{ tag, values }` objects so there is nothing to declare
+      case AstNodeKind.UnionDecl: code = ''; break;
+
+      // Every module is bundled into the same file so imports only matter to the type checker
+      case AstNodeKind.Import: code = ''; break;
+
+      case AstNodeKind.MethodCall: {
+        const base_node = node.base;
+        const args: string[] = [];
+        for (const a of node.args) {
+          const ac = node_to_code(a);
+          if (typeof ac != 'string') return ac;
+          args.push(ac);
+        }
+        if (base_node.kind != AstNodeKind.Ident || !this.is_union_name(base_node.ident)) {
+          const base = node_to_code(base_node);
+          if (typeof base != 'string') return base;
+          if (node.receiver == 'string') {
+            switch (node.name) {
+              // Strings are sequences of utf-8 bytes in go
+              case 'bytes': code = `Array.from(new TextEncoder().encode(${base}))`; break;
+              case 'chars': code = `Array.from(${base}, ch => ch.codePointAt(0))`; break;
+              case 'append': code = `(${base} + ${args[0]})`; break;
+              default: return new Error(`Unknown builtin string method ${node.name} in js codegen`);
+            }
+            break;
+          }
+          code = `(yield* ${node.receiver}_${node.name}(${[base, ...args].join(', ')}))`;
+          break;
+        }
+        code = `{ tag: '${node.name}', values: [${args.join(', ')}] }`;
+      } break;
+
+      case AstNodeKind.Match: {
+        if (!node.is_expr) {
+          const res = this.match_to_code(node, indent_lvl);
+          if (typeof res != 'string') return res;
+          code = res.trimStart();
+          break;
+        }
+
+        const chain = this.match_to_code(node, indent_lvl + 1);
+        if (typeof chain != 'string') return chain;
+        code = `(yield* (function* () {\n${chain}\n${indent}})())`;
+      } break;
+
+      case AstNodeKind.StructLit: {
+        const fields: string[] = [];
+        for (const f of node.fields) {
+          const value = node_to_code(f.value);
+          if (typeof value != 'string') return value;
+          fields.push(`${f.name}: ${value}`);
+        }
+        code = `{ ${fields.join(', ')} }`;
+      } break;
+
+      case AstNodeKind.ArrayLit: {
+        const items: string[] = [];
+        for (const n of node.items) {
+          const ic = node_to_code(n);
+          if (typeof ic != 'string') return ic;
+          items.push(ic);
+        }
+        code = `[${items.join(', ')}]`;
+      } break;
+
+      case AstNodeKind.Index: {
+        const base = node_to_code(node.base);
+        if (typeof base != 'string') return base;
+        const index = node_to_code(node.index);
+        if (typeof index != 'string') return index;
+        code = `${base}[${index}]`;
+      } break;
+
+      case AstNodeKind.FieldAccess: {
+        const base_node = node.base;
+        if (base_node.kind == AstNodeKind.Ident && this.is_union_name(base_node.ident)) {
+          code = `{ tag: '${node.field}', values: [] }`;
+          break;
+        }
+        const base = node_to_code(node.base);
+        if (typeof base != 'string') return base;
+        // Strings are measured in utf-8 bytes like in go
+        if (node.property && node.field == 'len' && node.receiver == 'string') {
+          code = `BigInt(new TextEncoder().encode(${base}).length)`;
+          break;
+        }
+        // Lengths are `uisz` so they are BigInts like every 64 bit integer
+        code = node.property && node.field == 'len' ? `BigInt(${base}.length)` : `${base}.${node.field}`;
+      } break;
+
+      case AstNodeKind.While: {
+        const body: string[] = [];
+        for (const b of node.body) {
+          const bc = node_to_code(b, indent_lvl + 1);
+          if (typeof bc != 'string') return bc;
+          body.push(bc);
+        }
+
+        const cond = node_to_code(node.cond);
+        if (typeof cond != 'string') return cond;
+        code = pipe(
+          [cond, body.join(';\n')] as const,
+          ([cond, body]) => `while (${cond}) {\n${body};\n${indent}}`,
+        );
+      } break;
+
+      case AstNodeKind.For: {
+        const body: string[] = [];
+        for (const b of node.body) {
+          const bc = node_to_code(b, indent_lvl + 1);
+          if (typeof bc != 'string') return bc;
+          body.push(bc);
+        }
+
+        const start = node_to_code(node.start);
+        if (typeof start != 'string') return start;
+        const end = node_to_code(node.end);
+        if (typeof end != 'string') return end;
+        const name = node.iter.name;
+        code = pipe(
+          [name, start, end, body.join(';\n')] as const,
+          ([name, start, end, body]) => `for (let ${name} = ${start}; ${name} < ${end}; ++${name}) {\n${body};\n${indent}}`,
+        );
+      } break;
     }
 
     if (code != null) {
@@ -217,6 +579,88 @@ class JavascriptCodegen implements TargetCodeGen {
     return new Error('Do not know how to handle node of kind ' + node.kind + ' in js codegen');
   }
 
+  is_union_name(name: string): boolean {
+    return this.cg?.types.some(t => t.kind == AstNodeKind.UnionDecl && t.name == name) ?? false;
+  }
+
+  is_struct_name(name: string): boolean {
+    return this.cg?.types.some(t => t.kind == AstNodeKind.StructDecl && t.name == name) ?? false;
+  }
+
+  // Replaces the type parameters in a type name by the types of the copy being emitted
+  resolve_type(name: string): string {
+    const type_args = this.copy?.type_args;
+    return type_args ? name.replace(/\w+/g, word => type_args[word] ?? word) : name;
+  }
+
+  // Calls to functions with `number` type parameters go to the copy for the types they are called with
+  callee_name(node: FnCallNode): string {
+    const decl = this.cg?.funcs.find(f => f.name == node.name && !f.receiver);
+    const generics = decl?.generics.filter(g => g.constraint == 'number') ?? [];
+    if (!decl || generics.length == 0) return node.name;
+
+    const type_args = Object.fromEntries(generics.map(g => [g.name, this.resolve_type(node.type_args[g.name] ?? 'sisz')]));
+    const name = [node.name, ...generics.map(g => type_args[g.name])].join('$');
+    if (!this.copies.has(name)) this.copies.set(name, { decl, type_args });
+    return name;
+  }
+
+  // The callee and its arguments are evaluated where the call is deferred like go does, only the call is delayed
+  defer_to_code(node: FnCallNode | MethodCallNode, indent_lvl: number): string | Error {
+    const args: string[] = [];
+    for (const a of node.args) {
+      const ac = this.node_to_code(a, -1);
+      if (typeof ac != 'string') return ac;
+      args.push(ac);
+    }
+    if (node.kind == AstNodeKind.MethodCall) {
+      const base = this.node_to_code(node.base, -1);
+      if (typeof base != 'string') return base;
+      return `$defers.push([${node.receiver}_${node.name}, [${[base, ...args].join(', ')}]])`;
+    }
+    const callee = node.lambda ? this.node_to_code(node.lambda, indent_lvl) : this.callee_name(node);
+    if (typeof callee != 'string') return callee;
+    return `$defers.push([${callee.trimStart()}, [${args.join(', ')}]])`;
+  }
+
+  // Matches are emitted as an if chain over the tags rather than a switch so that `break` inside of an arm
+  // still applies to the enclosing loop
+  match_to_code(node: MatchNode, indent_lvl: number): string | Error {
+    const indent = get_indent_from_lvl(indent_lvl);
+    const arm_indent = get_indent_from_lvl(indent_lvl + 1);
+    const node_to_code = this.node_to_code.bind(this);
+
+    const subject = node_to_code(node.subject);
+    if (typeof subject != 'string') return subject;
+
+    const branches: string[] = [];
+    let fallback: string | null = null;
+    for (const arm of node.arms) {
+      const body: string[] = [];
+      arm.bindings.forEach((name, i) => {
+        if (name == '_') return;
+        body.push(`${arm_indent}  const ${name} = $m.values[${i}]`);
+      });
+      for (const n of arm.body) {
+        const code = node.is_expr
+          ? pipe(node_to_code(n), c => typeof c == 'string' ? `${arm_indent}  return ${c}` : c)
+          : node_to_code(n, indent_lvl + 2);
+        if (typeof code != 'string') return code;
+        body.push(code);
+      }
+
+      const block = `{\n${body.join(';\n')};\n${arm_indent}}`;
+      if (arm.variant == '_') {
+        fallback = block;
+        continue;
+      }
+      branches.push(`if ($m.tag === '${arm.variant}') ${block}`);
+    }
+    if (fallback) branches.push(fallback);
+
+    return `${indent}{\n${arm_indent}const $m = ${subject};\n${arm_indent}${branches.join(' else ')}\n${indent}}`;
+  }
+
   emit_code(): boolean {
     const node_to_code = this.node_to_code.bind(this);
     const cg = this.cg;
@@ -250,6 +694,11 @@ globalThis.printf = function*(fmt, ...args) {
       i++;
       continue;
     }
+    if (fmt[i+1] == '%') {
+      buf += '%';
+      i++;
+      continue;
+    }
   }
 
   let idx = buf.lastIndexOf('\\n');
@@ -274,10 +723,48 @@ async function exec(fn) {
   return step.value;
 }
 
-return { exec };
+// \`?\` throws the result holding an error up to the function returning it
+class Propagated {
+  constructor(result) { this.result = result; }
+}
+function unwrap(result) {
+  if (result.tag === 'err') throw new Propagated(result);
+  return result.values[0];
+}
+function caught(e) {
+  if (e instanceof Propagated) return e.result;
+  throw e;
+}
+
+// Integer divisions by zero panic in go
+function divisor(value) {
+  if (value == 0) throw new Error('runtime error: integer divide by zero');
+  return value;
+}
+
+// Calls deferred by a function run last to first once it exits
+function* unwind(defers) {
+  while (defers.length > 0) {
+    const [fn, args] = defers.pop();
+    yield* fn(...args);
+  }
+}
+
+return { exec, unwrap, caught, unwind, divisor };
 })();
 `);
 
+    for (const tdcl of cg.types) {
+      const code = node_to_code(tdcl);
+      if (typeof code != 'string') {
+        compiler_logger.error(get_current_line(), code.message);
+        if (code.stack) console.log(code.stack);
+        return true;
+      }
+
+      cg.write(`\n${code};\n`);
+    }
+
     for (const vdcl of cg.vars) {
       const code = node_to_code(vdcl);
       if (typeof code != 'string') {
@@ -290,6 +777,7 @@ return { exec };
     }
 
     for (const fdcl of cg.funcs) {
+      if (fdcl.generics.some(g => g.constraint == 'number')) continue;
       const code = node_to_code(fdcl);
       if (typeof code != 'string') {
         compiler_logger.error(get_current_line(), code.message);
@@ -300,6 +788,20 @@ return { exec };
       cg.write(`\n${code}\n`);
     }
 
+    // Copies are added while emitting the calls to them, maps iterate over the entries added meanwhile
+    for (const [name, copy] of this.copies) {
+      this.copy = { name, ...copy };
+      const code = node_to_code(copy.decl);
+      this.copy = null;
+      if (typeof code != 'string') {
+        compiler_logger.error(get_current_line(), code.message);
+        if (code.stack) console.log(code.stack);
+        return true;
+      }
+
+      cg.write(`\n${code}\n`);
+    }
+
     cg.write(`\n$$EibaFu.exec(main);\n`);
 
     return false;
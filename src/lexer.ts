@@ -5,6 +5,21 @@ export const Keywords = {
   If: 'if',
   Ret: 'return',
   Var: 'let',
+  Const: 'const',
+  While: 'while',
+  For: 'for',
+  Break: 'break',
+  Continue: 'continue',
+  Defer: 'defer',
+  Struct: 'struct',
+  Enum: 'enum',
+  Union: 'union',
+  Match: 'match',
+  True: 'true',
+  False: 'false',
+  Import: 'import',
+  As: 'as',
+  Null: 'null',
 } as const;
 type KeywordsMap = typeof Keywords;
 type Keyword = KeywordsMap[keyof KeywordsMap];
@@ -16,7 +31,9 @@ export const TokenKind = Object.freeze({
   Ident: 'Identifier',
   Keyword: 'Keyword',
   Integer: 'Integer',
+  Float: 'Float',
   String: 'String',
+  Char: 'Char',
 } as const);
 
 export type TokenKindsMap = (typeof TokenKind);
@@ -49,13 +66,32 @@ export type IdentToken = {
 export type IntToken = {
   kind: TokenKindsMap['Integer'];
   pos: CursorPosition;
-  int: number;
+  // Kept exact, 64 bit integers do not all fit in doubles
+  int: bigint;
+}
+
+export type FltToken = {
+  kind: TokenKindsMap['Float'];
+  pos: CursorPosition;
+  flt: number;
 }
 
 export type StrToken = {
   kind: TokenKindsMap['String'];
   pos: CursorPosition;
   string: string;
+  // Interpolated `{expr}` holes, `at` is the index in `string` the value of `src` is inserted at
+  holes: Array<{ at: number; src: string; pos: CursorPosition; }>;
+  // The lexer has no logger, invalid escapes and the like are reported by the parser reading the token
+  error: { pos: CursorPosition; message: string; } | null;
+}
+
+export type CharToken = {
+  kind: TokenKindsMap['Char'];
+  pos: CursorPosition;
+  // Code point of the character
+  char: number;
+  error: { pos: CursorPosition; message: string; } | null;
 }
 
 export type KeywordToken = {
@@ -70,9 +106,47 @@ export type Token =
   | IdentToken
   | KeywordToken
   | IntToken
+  | FltToken
   | StrToken
+  | CharToken
   ;
 
+type LexedChars = Array<{ ch: string; pos: CursorPosition; }>;
+
+// Decodes the escape sequence starting at the backslash `chars[start]`, `end` is the index of its last char
+function decode_escape(chars: LexedChars, start: number): { ok: true; value: string; end: number } | { ok: false; error: string; end: number } {
+  const esc = chars[start + 1]?.ch;
+  const end = start + 1;
+  switch (esc) {
+    case 'n': return { ok: true, value: '\n', end };
+    case 'r': return { ok: true, value: '\r', end };
+    case 't': return { ok: true, value: '\t', end };
+    case '0': return { ok: true, value: '\0', end };
+    case '\\': case `'`: case '`': case '{': case '}': return { ok: true, value: esc, end };
+    case 'x': {
+      // Strings are utf-8 bytes in go but utf-16 in js, so only ascii can be written byte by byte
+      const hex = (chars[end + 1]?.ch ?? '') + (chars[end + 2]?.ch ?? '');
+      if (!/^[0-7][0-9a-fA-F]$/.test(hex)) {
+        return { ok: false, error: 'Escape `\\x` takes two hex digits of an ascii character (00 to 7f), use `\\u{...}` for anything else', end };
+      }
+      return { ok: true, value: String.fromCharCode(Number.parseInt(hex, 16)), end: end + 2 };
+    }
+    case 'u': {
+      let digits = '';
+      let close = end + 1;
+      if (chars[close]?.ch == '{') {
+        for (close++; close < chars.length && chars[close]!.ch != '}'; close++) digits += chars[close]!.ch;
+      }
+      const code = Number.parseInt(digits, 16);
+      if (chars[close]?.ch != '}' || !/^[0-9a-fA-F]{1,6}$/.test(digits) || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+        return { ok: false, error: 'Escape `\\u{...}` takes the 1 to 6 hex digits of a unicode scalar value', end };
+      }
+      return { ok: true, value: String.fromCodePoint(code), end: close };
+    }
+  }
+  return { ok: false, error: esc == null ? 'Literal ends in the middle of an escape' : `Unknown escape sequence \`\\${esc}\``, end };
+}
+
 const is_whitespace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
 
 const ALPHABET_CHARS = Object.freeze([
@@ -95,11 +169,12 @@ class SimpLexer {
   private buf: string;
   #tok: Token;
 
-  constructor(buf: string) {
+  // Source embedded in another file, like the holes of an interpolated string, starts lexing at its position there
+  constructor(buf: string, start?: CursorPosition) {
     this.buf = buf;
     this.cursor = -1;
-    this.column = 0;
-    this.line = 1;
+    this.column = start ? start.column - 1 : 0;
+    this.line = start?.line ?? 1;
     this.next = this.next.bind(this);
     this.#tok = null as any;
   }
@@ -161,45 +236,39 @@ class SimpLexer {
     }
     const { line, column } = this;
 
-    if (ch === '`') {
-      let str = ''; // TODO: Possibly should handle unterminated strings properly but it doesn't really matter right now
-      ch = buf[++this.cursor];
-      while (ch != `'`) {
-        let escpaing = false;
-        if (ch == '\\') {
-          ch = buf[++this.cursor];
-          if (ch == null) break;
-          escpaing = true;
-        }
-
-        if (escpaing) {
-          switch (ch) {
-            case 'n': ch = '\n'; break;
-            case 'r': ch = '\r'; break;
-            case 't': ch = '\t'; break;
-          }
-        }
+    if (ch === `'`) {
+      this.#tok = this.lex_char({ line, column });
+      return this.#tok;
+    }
 
-        str += ch;
-        ch = buf[++this.cursor];
+    if (ch === '`' || (ch == 'r' && buf[this.cursor + 1] == '`')) {
+      const raw = ch == 'r';
+      if (raw) {
+        this.cursor++;
+        this.column++;
       }
+      this.#tok = this.lex_string(raw, { line, column });
+      return this.#tok;
+    }
 
+    if (ch == '&' && buf[this.cursor + 1] == '&') {
+      this.cursor++;
+      this.column++;
       this.#tok = {
-        kind: TokenKind.String,
+        kind: TokenKind.Symbol,
         pos: { line, column },
-        string: str,
+        sym: '&&',
       };
-
       return this.#tok;
     }
 
-    if (ch == '&' && buf[this.cursor + 1] == '&') {
+    if (ch == '?' && buf[this.cursor + 1] == '?') {
       this.cursor++;
       this.column++;
       this.#tok = {
         kind: TokenKind.Symbol,
         pos: { line, column },
-        sym: '&&',
+        sym: '??',
       };
       return this.#tok;
     }
@@ -229,6 +298,17 @@ class SimpLexer {
       }
     }
 
+    if (ch == '.' && buf[this.cursor + 1] == '.') {
+      this.cursor++;
+      this.column++;
+      this.#tok = {
+        kind: TokenKind.Symbol,
+        pos: { line, column },
+        sym: '..',
+      };
+      return this.#tok;
+    }
+
     if (ch == '!' && buf[this.cursor + 1] == '=') {
       this.cursor++;
       this.column++;
@@ -282,10 +362,9 @@ class SimpLexer {
       }
     }
 
-    let negative = false;
-    if (ch === '-') {
+    if (ch == '+' || ch == '*' || ch == '/' || ch == '%') {
       const next = buf[this.cursor + 1]!;
-      if (next == '>') {
+      if (next == '=' || (ch == '+' && next == '+')) {
         this.cursor++;
         this.column++;
         this.#tok = {
@@ -295,25 +374,75 @@ class SimpLexer {
         };
         return this.#tok;
       }
+    }
 
-      if (is_num_ch(next)) {
-        negative = true;
-        ch = next;
+    if (ch === '-') {
+      const next = buf[this.cursor + 1]!;
+      if (next == '>' || next == '=' || next == '-') {
+        this.cursor++;
+        this.column++;
+        this.#tok = {
+          kind: TokenKind.Symbol,
+          pos: { line, column },
+          sym: `${ch}${next}`,
+        };
+        return this.#tok;
       }
     }
 
     if (is_num_ch(ch!)) {
       let str = '';
+      let is_float = false;
 
       while (ch && is_num_ch(ch)) {
         str += ch;
         ch = buf[++this.cursor];
         this.column++;
       }
+
+      // The '.' must be followed by a digit so ranges like `0..10` are still read as integers
+      if (ch == '.' && is_num_ch(buf[this.cursor + 1] ?? '')) {
+        is_float = true;
+        do {
+          str += ch;
+          ch = buf[++this.cursor];
+          this.column++;
+        } while (ch && is_num_ch(ch));
+      }
+
+      if (ch == 'e' || ch == 'E') {
+        const sign = buf[this.cursor + 1] ?? '';
+        const has_sign = sign == '+' || sign == '-';
+        if (is_num_ch(buf[this.cursor + (has_sign ? 2 : 1)] ?? '')) {
+          is_float = true;
+          str += 'e';
+          if (has_sign) {
+            str += sign;
+            this.cursor++;
+            this.column++;
+          }
+          ch = buf[++this.cursor];
+          this.column++;
+          while (ch && is_num_ch(ch)) {
+            str += ch;
+            ch = buf[++this.cursor];
+            this.column++;
+          }
+        }
+      }
       this.cursor--;
 
-      let int = Number.parseInt(str);
-      if (negative) int = -int;
+      if (is_float) {
+        this.#tok = {
+          kind: TokenKind.Float,
+          pos: { line, column },
+          flt: Number.parseFloat(str),
+        };
+
+        return this.#tok;
+      }
+
+      const int = BigInt(str);
 
       this.#tok = {
         kind: TokenKind.Integer,
@@ -360,6 +489,165 @@ class SimpLexer {
     return this.#tok;
   }
 
+  // Reads a string literal whose opening backtick is under the cursor and leaves the cursor on its closing quote.
+  // Raw strings (`r`C:\dir'`) keep every character as written. Strings starting with a line break are block
+  // strings, the line breaks after the opening backtick and before a closing quote on its own line are dropped
+  // along with the indentation of that closing quote on every line.
+  private lex_string(raw: boolean, pos: CursorPosition): StrToken {
+    const buf = this.buf;
+    const tok: StrToken = {
+      kind: TokenKind.String,
+      pos,
+      string: '',
+      holes: [],
+      error: null,
+    };
+    const fail = (at: CursorPosition, message: string) => {
+      tok.error ??= { pos: at, message };
+    };
+
+    // The closing quote is found first, quotes after a backslash or inside an interpolation hole don't end the string
+    let chars = [] as LexedChars;
+    let escaped = false;
+    let depth = 0;
+    let terminated = false;
+    let prev = '';
+    while (this.cursor + 1 < buf.length) {
+      if (prev == '\n') {
+        this.line++;
+        this.column = 0;
+      }
+      const ch = buf[++this.cursor]!;
+      this.column++;
+      prev = ch;
+      if (ch == `'` && !escaped && depth == 0) {
+        terminated = true;
+        break;
+      }
+      chars.push({ ch, pos: { line: this.line, column: this.column } });
+      if (raw) continue;
+      if (escaped) {
+        escaped = false;
+      } else if (ch == '\\') {
+        escaped = true;
+      } else if (ch == '{') {
+        depth++;
+      } else if (ch == '}' && depth > 0) {
+        depth--;
+      }
+    }
+    if (!terminated) fail(pos, 'String literal is missing its closing quote');
+
+    if (chars[0]?.ch == '\n') {
+      const lines = [[]] as Array<typeof chars>;
+      for (const c of chars) {
+        lines[lines.length - 1]!.push(c);
+        if (c.ch == '\n') lines.push([]);
+      }
+      lines.shift();
+      let indent = 0;
+      const closing = lines[lines.length - 1]!;
+      if (closing.every(c => c.ch == ' ' || c.ch == '\t')) {
+        indent = closing.length;
+        lines.pop();
+        lines[lines.length - 1]?.pop();
+      }
+      chars = lines.flatMap(line => {
+        let n = 0;
+        while (n < indent && (line[n]?.ch == ' ' || line[n]?.ch == '\t')) n++;
+        return line.slice(n);
+      });
+    }
+
+    if (raw) {
+      tok.string = chars.map(c => c.ch).join('');
+      return tok;
+    }
+
+    let str = '';
+    for (let i = 0; i < chars.length; i++) {
+      const { ch, pos: ch_pos } = chars[i]!;
+      if (ch == '{') {
+        let src = '';
+        let depth = 0;
+        const hole_pos = chars[i + 1]?.pos ?? ch_pos;
+        for (i++; i < chars.length && (chars[i]!.ch != '}' || depth > 0); i++) {
+          if (chars[i]!.ch == '{') depth++;
+          if (chars[i]!.ch == '}') depth--;
+          src += chars[i]!.ch;
+        }
+        tok.holes.push({ at: str.length, src, pos: hole_pos });
+        continue;
+      }
+      if (ch != '\\') {
+        str += ch;
+        continue;
+      }
+
+      const escape = decode_escape(chars, i);
+      if (!escape.ok) fail(ch_pos, escape.error);
+      else str += escape.value;
+      i = escape.end;
+    }
+    tok.string = str;
+    return tok;
+  }
+
+  // Reads a char literal whose opening quote is under the cursor and leaves the cursor on its closing quote
+  private lex_char(pos: CursorPosition): CharToken {
+    const buf = this.buf;
+    const tok: CharToken = {
+      kind: TokenKind.Char,
+      pos,
+      char: 0,
+      error: null,
+    };
+
+    const chars = [] as LexedChars;
+    let escaped = false;
+    let terminated = false;
+    while (this.cursor + 1 < buf.length) {
+      const ch = buf[this.cursor + 1]!;
+      // Leave the line break to `next` so lines are still counted
+      if (ch == '\n') break;
+      this.cursor++;
+      this.column++;
+      if (ch == `'` && !escaped) {
+        terminated = true;
+        break;
+      }
+      chars.push({ ch, pos: { line: this.line, column: this.column } });
+      escaped = !escaped && ch == '\\';
+    }
+    if (!terminated) {
+      tok.error = { pos, message: 'Char literal is missing its closing quote' };
+      return tok;
+    }
+
+    let text = '';
+    for (let i = 0; i < chars.length; i++) {
+      if (chars[i]!.ch != '\\') {
+        text += chars[i]!.ch;
+        continue;
+      }
+      const escape = decode_escape(chars, i);
+      if (!escape.ok) {
+        tok.error = { pos: chars[i]!.pos, message: escape.error };
+        return tok;
+      }
+      text += escape.value;
+      i = escape.end;
+    }
+
+    const code_points = Array.from(text);
+    if (code_points.length != 1) {
+      tok.error = { pos, message: `A char literal holds exactly one character but found ${code_points.length}` };
+      return tok;
+    }
+    tok.char = code_points[0]!.codePointAt(0)!;
+    return tok;
+  }
+
   peek() {
     return this.clone().next();
   }
@@ -391,6 +679,6 @@ class SimpLexer {
   }
 }
 
-export const Lex = (contents: string) => new SimpLexer(contents);
+export const Lex = (contents: string, start?: CursorPosition) => new SimpLexer(contents, start);
 export type Lexer = ReturnType<typeof Lex>;
 
@@ -0,0 +1,116 @@
+import path from 'node:path';
+
+import { Lex } from './lexer';
+import { AstNodeKind, Parse, type ImportNode, type Parser, type SimpNode } from './parser';
+import { compiler_logger, get_current_line, Result } from './utils';
+
+export interface Module {
+  // Path of the file as it is reported in diagnostics, relative paths stay relative to the working directory
+  path: string;
+  // Name of the file without its directory or extension, used to name the emitted files
+  name: string;
+  parser: Parser;
+  nodes: SimpNode[];
+  imports: Array<{ node: ImportNode; module: Module; }>;
+  // Set by a `// @strict` line anywhere in the file
+  strict: boolean;
+}
+
+const STRICT_PRAGMA = /^[ \t]*\/\/[ \t]*@strict[ \t]*$/m;
+
+async function parse_module(file_path: string): Promise<Module | null> {
+  const content = await Bun.file(file_path).text();
+  const lexer = Lex(content);
+  const parser = Parse(file_path, lexer);
+
+  const nodes = [] as SimpNode[];
+  while (true) {
+    const node = parser.parse_statement();
+    if (node == null) {
+      const tok = lexer.get_token();
+      compiler_logger.info(get_current_line(), `Failed to parse a statement from token ${tok.kind}`);
+      return null;
+    }
+    if (node.kind == AstNodeKind.EOF) break;
+    nodes.push(node);
+  }
+
+  return {
+    path: file_path,
+    name: path.basename(file_path, path.extname(file_path)),
+    parser,
+    nodes,
+    imports: [],
+    strict: STRICT_PRAGMA.test(content),
+  };
+}
+
+// Parses the entry file and every module it imports, each file is parsed once no matter how many
+// times it is imported. Modules are returned in dependency order so every module comes after the
+// modules it imports, which leaves the entry module last.
+export async function load_modules(entry_path: string): Promise<Result<Module[], [string, ...string[]]>> {
+  const loaded = new Map<string, Module>();
+  const order = [] as Module[];
+  // Modules currently being loaded, a module showing up here again means that it imports itself
+  const loading = [] as string[];
+
+  const load = async (file_path: string, from: { module: Module; node: ImportNode } | null): Promise<Result<Module, [string, ...string[]]>> => {
+    const key = path.resolve(file_path);
+    const at = from ? `${from.module.path}:${from.node.pos.line}:${from.node.pos.column}: ` : '';
+
+    const cycle_start = loading.indexOf(key);
+    if (cycle_start != -1) {
+      const cycle = loading.slice(cycle_start).concat(key).map(p => path.relative(process.cwd(), p));
+      return Result.Err([`${at}Import cycle detected: ${cycle.join(' -> ')}`]);
+    }
+
+    const existing = loaded.get(key);
+    if (existing) return Result.Ok(existing);
+
+    if (!await Bun.file(file_path).exists()) {
+      return Result.Err([`${at}Imported module ${from?.node.path ?? file_path} does not point to an existing file`]);
+    }
+
+    const module = await parse_module(file_path);
+    if (!module) return Result.Err([`${at}Failed to parse module ${file_path}`]);
+    loaded.set(key, module);
+
+    loading.push(key);
+    for (const node of module.nodes) {
+      if (node.kind != AstNodeKind.Import) continue;
+      const dep_path = path.join(path.dirname(file_path), node.path);
+      const dep_result = await load(dep_path, { module, node });
+      if (!dep_result.ok) return dep_result;
+      module.imports.push({ node, module: dep_result.value });
+    }
+    loading.pop();
+
+    order.push(module);
+    return Result.Ok(module);
+  };
+
+  const entry_result = await load(entry_path, null);
+  if (!entry_result.ok) return Result.Err(entry_result.error);
+
+  // Every module is emitted into the same go package or js bundle so top level names have to be unique
+  const declared = new Map<string, Module>();
+  const errors = [] as unknown as [string, ...string[]];
+  for (const module of order) {
+    for (const node of module.nodes) {
+      if (node.kind != AstNodeKind.FuncDecl && node.kind != AstNodeKind.VarDecl && node.kind != AstNodeKind.StructDecl
+        && node.kind != AstNodeKind.EnumDecl && node.kind != AstNodeKind.UnionDecl) continue;
+      // Methods live in the scope of their receiver type
+      if (node.kind == AstNodeKind.FuncDecl && node.receiver) continue;
+
+      const other = declared.get(node.name);
+      if (other && other != module) {
+        errors.push(`${module.path}:${node.pos.line}:${node.pos.column}: ${node.name} is already declared by module ${other.path}, top level names must be unique across modules`);
+        continue;
+      }
+      declared.set(node.name, module);
+    }
+  }
+  if (errors.length > 0) return Result.Err(errors);
+
+  return Result.Ok(order);
+}
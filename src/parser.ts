@@ -1,7 +1,7 @@
-import type { Lexer, SymToken } from './lexer';
+import type { IdentToken, Lexer, StrToken, SymToken } from './lexer';
 import type { CursorPosition } from './utils';
 import { create_parser_logger, get_current_line, compiler_logger, pipe, } from './utils';
-import { TokenKind, Keywords } from './lexer';
+import { TokenKind, Keywords, Lex } from './lexer';
 
 export const AstNodeKind = Object.freeze({
   EOF: 'eof',
@@ -14,6 +14,23 @@ export const AstNodeKind = Object.freeze({
   Expr: 'expr',
   Keyword: 'kword',
   IfElse: 'iffi',
+  While: 'whl',
+  For: 'for',
+  Assign: 'asgn',
+  StructDecl: 'stdcl',
+  StructLit: 'stlit',
+  EnumDecl: 'endcl',
+  UnionDecl: 'undcl',
+  MethodCall: 'mtcal',
+  Match: 'mtch',
+  FieldAccess: 'fld',
+  ArrayLit: 'arlit',
+  Index: 'idx',
+  UnaryOp: 'unop',
+  Import: 'imprt',
+  Cast: 'cast',
+  Try: 'try',
+  Interp: 'intrp',
   Ident: 'idnt',
   Literal: 'lit',
 } as const);
@@ -26,11 +43,20 @@ export interface EoFNode {
 
 export interface FnDeclNode {
   kind: AstNodeKindsMap['FuncDecl'];
+  // Empty for lambdas (`fn(x: sisz) -> sisz { ... }` used as an expression)
   name: string;
+  // Value the method is called on for methods declared as `fn (p: Point) norm() -> flt64`
+  receiver: FnDArgNode | null;
+  // Type parameters (`fn first<T>(...)`), the constraint is null when any type is accepted
+  generics: Array<{ name: string; constraint: string | null; pos: CursorPosition; }>;
   returns: string;
   args: FnDArgNode[];
   body: SimpNode[];
   pos: CursorPosition;
+  // Set by the type checker when the body returns errors early with `?`
+  propagates: boolean;
+  // Set by the type checker when the body defers calls to when it exits
+  defers: boolean;
 }
 
 export interface FnDArgNode {
@@ -45,6 +71,14 @@ export interface FnCallNode {
   pos: CursorPosition;
   name: string;
   args: SimpNode[];
+  // Lambda called in place, which is what piping into a lambda turns into, `name` is empty when set
+  lambda: FnDeclNode | null;
+  // Name of the `T!E` result type returned by the call, set by the type checker as go returns results
+  // as `(T, error)`
+  result: string;
+  // Types bound to the type parameters of the called function, set by the type checker as js emits generic
+  // functions once for every set of number types they are called with
+  type_args: Record<string, string>;
 }
 
 export interface BinopNode {
@@ -53,9 +87,45 @@ export interface BinopNode {
   op: BinopOperator;
   lhs: SimpNode;
   rhs: SimpNode;
+  // Type of the result of math and bitwise operations, set by the type checker
+  type: string;
+}
+
+export interface UnaryOpNode {
+  kind: AstNodeKindsMap['UnaryOp'];
+  pos: CursorPosition;
+  op: UnaryOperator;
+  expr: AstExprNode;
+  // Type of the result of `-` and `~`, set by the type checker
+  type: string;
 }
 
 // type PipeChainables = IdentNode | FnCallNode;
+// String literal with `{expr}` holes, `parts` holds the text around them so it has one more item than `holes`
+export interface InterpNode {
+  kind: AstNodeKindsMap['Interp'];
+  pos: CursorPosition;
+  parts: string[];
+  holes: AstExprNode[];
+}
+
+export interface CastNode {
+  kind: AstNodeKindsMap['Cast'];
+  pos: CursorPosition;
+  expr: AstExprNode;
+  // Name of the type the value is converted into
+  type: string;
+  // Name of the type of the converted value, set by the type checker
+  from: string;
+}
+
+// `expr?` is the value held by the result `expr`, its error is returned from the enclosing function instead
+export interface TryNode {
+  kind: AstNodeKindsMap['Try'];
+  pos: CursorPosition;
+  expr: AstExprNode;
+}
+
 export interface PipeOpNode {
   kind: AstNodeKindsMap['PipeOp'];
   pos: CursorPosition;
@@ -72,7 +142,30 @@ export type LiteralNode = {
   kind: AstNodeKindsMap['Literal'];
   pos: CursorPosition;
   type: 'int';
+  value: bigint;
+  // Integer type the literal is settled to by the type checker, untyped integers are `sisz` like in go
+  int_type: string;
+} | {
+  kind: AstNodeKindsMap['Literal'];
+  pos: CursorPosition;
+  type: 'flt';
+  value: number;
+} | {
+  kind: AstNodeKindsMap['Literal'];
+  pos: CursorPosition;
+  type: 'bool';
+  value: boolean;
+} | {
+  kind: AstNodeKindsMap['Literal'];
+  pos: CursorPosition;
+  type: 'char';
+  // Code point of the character
   value: number;
+} | {
+  kind: AstNodeKindsMap['Literal'];
+  pos: CursorPosition;
+  type: 'null';
+  value: null;
 }
 
 export interface ExprNode {
@@ -94,10 +187,13 @@ export interface VarDeclNode {
   name: string;
   type: {
     name: string;
+    // 'number' while the variable holds an untyped integer whose type is still inferred from its usage
     general: 'number' | null;
     infer_pos: (CursorPosition & { file: string; }) | null;
   };
   init: AstExprNode | null;
+  // Declared with `const`, the type checker replaces the initialization with its folded value
+  constant: boolean;
 }
 
 export interface IdentNode {
@@ -112,6 +208,139 @@ export interface IfElseNode {
   cond: SimpNode;
   body: SimpNode[];
   else: null | SimpNode[];
+  // Optional variable the condition compares to null, it holds a value in the branch where it is not
+  // null. `after` is set when the if exits whenever it is null, the statements after the if see it holding
+  // a value too. Set by the type checker
+  narrowed: { name: string; in_else: boolean; after: boolean } | null;
+  // Expression ifs hold a single expression in each branch and always have an else branch
+  is_expr: boolean;
+  // Type of the value produced by an expression if, set by the type checker
+  type: string;
+}
+
+export interface WhileNode {
+  kind: AstNodeKindsMap['While'];
+  pos: CursorPosition;
+  cond: SimpNode;
+  body: SimpNode[];
+}
+
+export interface ForNode {
+  kind: AstNodeKindsMap['For'];
+  pos: CursorPosition;
+  iter: {
+    name: string;
+    type: string;
+    pos: CursorPosition;
+  };
+  start: AstExprNode;
+  end: AstExprNode;
+  body: SimpNode[];
+}
+
+export interface AssignNode {
+  kind: AstNodeKindsMap['Assign'];
+  pos: CursorPosition;
+  op: AssignOperator;
+  target: IdentNode | FieldAccessNode | IndexNode;
+  // Null for the increment/decrement operators
+  value: AstExprNode | null;
+  // Type of the target of arithmetic assignments, set by the type checker
+  type: string;
+}
+
+export interface StructDeclNode {
+  kind: AstNodeKindsMap['StructDecl'];
+  pos: CursorPosition;
+  name: string;
+  fields: Array<{ name: string; type: string; pos: CursorPosition; }>;
+}
+
+export interface StructLitNode {
+  kind: AstNodeKindsMap['StructLit'];
+  pos: CursorPosition;
+  name: string;
+  fields: Array<{ name: string; value: AstExprNode; pos: CursorPosition; }>;
+}
+
+export interface EnumDeclNode {
+  kind: AstNodeKindsMap['EnumDecl'];
+  pos: CursorPosition;
+  name: string;
+  // Values without an explicit number are null until the type checker resolves them
+  values: Array<{ name: string; value: number | null; pos: CursorPosition; }>;
+}
+
+export interface UnionDeclNode {
+  kind: AstNodeKindsMap['UnionDecl'];
+  pos: CursorPosition;
+  name: string;
+  variants: Array<{ name: string; types: string[]; pos: CursorPosition; }>;
+}
+
+export interface MatchNode {
+  kind: AstNodeKindsMap['Match'];
+  pos: CursorPosition;
+  subject: AstExprNode;
+  // Expression matches hold a single expression as the body of each arm
+  is_expr: boolean;
+  // Type of the value produced by an expression match, set by the type checker
+  type: string;
+  // Name of the union being matched on, set by the type checker
+  union: string;
+  arms: Array<{
+    variant: string;
+    bindings: string[];
+    body: SimpNode[];
+    pos: CursorPosition;
+  }>;
+}
+
+export interface MethodCallNode {
+  kind: AstNodeKindsMap['MethodCall'];
+  pos: CursorPosition;
+  base: AstExprNode;
+  name: string;
+  args: SimpNode[];
+  // Name of the type the method belongs to, set by the type checker
+  receiver: string;
+  // Same as the result of function calls
+  result: string;
+}
+
+export interface FieldAccessNode {
+  kind: AstNodeKindsMap['FieldAccess'];
+  pos: CursorPosition;
+  base: AstExprNode;
+  field: string;
+  // Set by the type checker when the field is a builtin property of the type such as `len`
+  property: boolean;
+  // Name of the type the property belongs to, set by the type checker
+  receiver: string;
+}
+
+export interface ArrayLitNode {
+  kind: AstNodeKindsMap['ArrayLit'];
+  pos: CursorPosition;
+  items: AstExprNode[];
+  // Type of the array, set by the type checker
+  type: string;
+}
+
+export interface IndexNode {
+  kind: AstNodeKindsMap['Index'];
+  pos: CursorPosition;
+  base: AstExprNode;
+  index: AstExprNode;
+}
+
+export interface ImportNode {
+  kind: AstNodeKindsMap['Import'];
+  pos: CursorPosition;
+  // Path of the imported module relative to the importing file
+  path: string;
+  // Names listed in `import { a, b } from ...`, null when every declaration of the module is imported
+  names: Array<{ name: string; pos: CursorPosition; }> | null;
 }
 
 export type AstNode =
@@ -125,6 +354,23 @@ export type AstNode =
   | LiteralNode
   | KeywordNode
   | IfElseNode
+  | WhileNode
+  | ForNode
+  | AssignNode
+  | StructDeclNode
+  | StructLitNode
+  | EnumDeclNode
+  | UnionDeclNode
+  | MatchNode
+  | MethodCallNode
+  | FieldAccessNode
+  | ArrayLitNode
+  | IndexNode
+  | UnaryOpNode
+  | CastNode
+  | TryNode
+  | InterpNode
+  | ImportNode
   | IdentNode
   | PipeOpNode
   ;
@@ -139,11 +385,22 @@ export type AstExprNode =
   | LiteralNode
   | IdentNode
   | PipeOpNode
+  | StructLitNode
+  | FieldAccessNode
+  | MethodCallNode
+  | MatchNode
+  | IfElseNode
+  | ArrayLitNode
+  | IndexNode
+  | UnaryOpNode
+  | CastNode
+  | TryNode
+  | InterpNode
   ;
 
 export type AstStmtNode = Exclude<AstNode, FnDArgNode | EoFNode>;
 
-export type BinopItemNode = LiteralNode | IdentNode | FnCallNode | BinopNode;
+export type BinopItemNode = LiteralNode | IdentNode | FnCallNode | FieldAccessNode | MethodCallNode | ArrayLitNode | IndexNode | UnaryOpNode | CastNode | TryNode | InterpNode | ExprNode | IfElseNode | BinopNode;
 
 const concat_arr = <const T, const U>(a: readonly T[], b: readonly U[]) => a.concat(b as any) as Array<T | U>;
 const MATH_BINOPS = ['+', '-', '/', '*', '%'] as const;
@@ -152,20 +409,34 @@ const CMP_BINOPS = ['>', '<', '==', '<=', '>=', '!='] as const;
 export type ComparisonOperator = typeof CMP_BINOPS[number];
 const LOGIC_BINOPS = ['&&', '||'] as const;
 export type LogicalOperator = typeof LOGIC_BINOPS[number];
+const BITWISE_BINOPS = ['&', '|', '^', '<<', '>>'] as const;
+export type BitwiseOperator = typeof BITWISE_BINOPS[number];
+// `a ?? b` is the value held by the optional `a` or `b` when it holds nothing
+const OPTIONAL_BINOPS = ['??'] as const;
 const BINOPS = pipe(
   MATH_BINOPS,
   arr => concat_arr(arr, CMP_BINOPS),
   arr => concat_arr(arr, LOGIC_BINOPS),
+  arr => concat_arr(arr, BITWISE_BINOPS),
+  arr => concat_arr(arr, OPTIONAL_BINOPS),
 );
 export type BinopOperator = typeof BINOPS[number];
 
 const is_binop = (v: string): v is BinopOperator => BINOPS.includes(v as any);
+const UNARY_OPS = ['!', '-', '~'] as const;
+export type UnaryOperator = typeof UNARY_OPS[number];
+const is_unary_op = (v: string): v is UnaryOperator => UNARY_OPS.includes(v as any);
+const ASSIGN_OPS = ['=', '+=', '-=', '*=', '/=', '%=', '++', '--'] as const;
+export type AssignOperator = typeof ASSIGN_OPS[number];
+const is_assign_op = (v: string): v is AssignOperator => ASSIGN_OPS.includes(v as any);
+// Follows the precedence of go, from the loosest to the tightest binding operators
 const binops_precedence = [
-  ['&&', '||'],
-  ['%'],
+  ['??'],
+  ['||'],
+  ['&&'],
   ['>', '<', '==', '<=', '>=', '!='],
-  ['-', '+'],
-  ['*', '/']
+  ['-', '+', '|', '^'],
+  ['*', '/', '%', '<<', '>>', '&'],
 ] as const satisfies Array<BinopOperator[]>;
 const get_binop_precedence = (op: BinopOperator): number => binops_precedence.findIndex((opset: BinopOperator[]) => opset.includes(op));
 
@@ -173,11 +444,13 @@ class SimpParser {
   logger: ReturnType<typeof create_parser_logger>;
   lexer: Lexer;
   readonly file_path: string;
+  private loop_depth: number;
 
   constructor(file_path: string, l: Lexer) {
     this.file_path = file_path;
     this.logger = create_parser_logger(file_path);
     this.lexer = l;
+    this.loop_depth = 0;
   }
 
   parse_statement = (): Exclude<AstNode, FnDArgNode> | null => {
@@ -185,8 +458,17 @@ class SimpParser {
       lexer, logger,
       parse_expr,
       parse_if_else,
+      parse_while,
+      parse_for,
+      parse_assign,
+      parse_struct_decl,
+      parse_enum_decl,
+      parse_union_decl,
+      parse_match,
+      parse_import,
       expect_ident,
       expect_symbol_next,
+      parse_type_name,
     } = this;
     const tok = lexer.peek();
 
@@ -197,10 +479,41 @@ class SimpParser {
           return parse_if_else(tok.pos);
         }
 
-        if (tok.kword == Keywords.Var) {
+        if (tok.kword == Keywords.While) {
+          lexer.next();
+          return parse_while(tok.pos);
+        }
+
+        if (tok.kword == Keywords.For) {
+          lexer.next();
+          return parse_for(tok.pos);
+        }
+
+        if (tok.kword == Keywords.Break || tok.kword == Keywords.Continue) {
+          lexer.next();
+          if (this.loop_depth == 0) {
+            logger.error(tok.pos, `Cannot use '${tok.kword}' outside of a loop`);
+            return null;
+          }
+
+          if (expect_symbol_next(';')) {
+            logger.info(tok.pos, 'Statement is missing ending semi-colon');
+            return null;
+          }
+
+          return {
+            kind: AstNodeKind.Keyword,
+            expr: null,
+            pos: tok.pos,
+            word: tok.kword,
+          };
+        }
+
+        if (tok.kword == Keywords.Var || tok.kword == Keywords.Const) {
+          const constant = tok.kword == Keywords.Const;
           lexer.next();
           if (expect_ident()) {
-            logger.info(tok.pos, 'When declaring a variable a name must be given to it');
+            logger.info(tok.pos, `When declaring a ${constant ? 'constant' : 'variable'} a name must be given to it`);
             return null;
           }
 
@@ -216,23 +529,46 @@ class SimpParser {
             logger.info(tok.pos, 'Missing semi-colon or initialization for variable');
             return null;
           }
+          if (constant && lexer.get_symbol() == ';') {
+            logger.error(tok.pos, `Constant ${name} must be initialized`);
+            return null;
+          }
 
           if (lexer.get_symbol() == ':') {
             let peek = lexer.peek();
-            if (peek.kind != TokenKind.Symbol && peek.kind != TokenKind.Ident) {
+            const fn_type = peek.kind == TokenKind.Keyword && peek.kword == Keywords.Func;
+            if (peek.kind != TokenKind.Symbol && peek.kind != TokenKind.Ident && !fn_type) {
               logger.error(peek.pos, `Expected either the symbol '=' or a type name but got ${tok.kind}`);
               return null;
             }
 
-            if (peek.kind == TokenKind.Ident) {
-              lexer.next();
-              type.name = lexer.get_ident();
+            if (peek.kind == TokenKind.Ident || fn_type) {
+              const type_name = parse_type_name();
+              if (!type_name) return null;
+              type.name = type_name;
               type.infer_pos = {
-                ...lexer.get_pos(),
+                ...peek.pos,
                 file: this.file_path,
               };
             }
 
+            // `let name: type;` declares the variable without initializing it
+            const next = lexer.peek();
+            if (type.name != '()' && next.kind == TokenKind.Symbol && next.sym == ';') {
+              lexer.next();
+              if (constant) {
+                logger.error(tok.pos, `Constant ${name} must be initialized`);
+                return null;
+              }
+              return {
+                kind: AstNodeKind.VarDecl,
+                pos: lexer.get_token().pos,
+                type,
+                name, init,
+                constant,
+              };
+            }
+
             if (expect_symbol_next('=')) return null;
 
             const expr = parse_expr();
@@ -246,6 +582,9 @@ class SimpParser {
                 type.name = 'string';
               } else if (expr.type == 'int') {
                 type.general = 'number';
+              } else if (expr.type == 'null') {
+                logger.error(expr.pos, `The type of ${name} can not be inferred from null, give it an optional type such as \`let ${name}: si32? = null;\``);
+                return null;
               }
             }
             if (type.infer_pos == null) {
@@ -266,6 +605,7 @@ class SimpParser {
             pos: lexer.get_token().pos,
             type,
             name, init,
+            constant,
           };
         }
 
@@ -291,6 +631,79 @@ class SimpParser {
           };
         }
 
+        if (tok.kword === Keywords.Defer) {
+          lexer.next();
+          const expr = parse_expr();
+          if (!expr) return null;
+
+          if (expect_symbol_next(';')) {
+            logger.info(tok.pos, 'Statement is missing ending semi-colon');
+            return null;
+          }
+
+          return {
+            kind: AstNodeKind.Keyword,
+            expr,
+            pos: tok.pos,
+            word: tok.kword,
+          };
+        }
+
+        if (tok.kword == Keywords.Struct) {
+          lexer.next();
+          const decl = parse_struct_decl(tok.pos);
+          if (!decl) return null;
+          const peek = lexer.peek();
+          if (peek.kind == TokenKind.Symbol && peek.sym == ';') {
+            lexer.next();
+          }
+          return decl;
+        }
+
+        if (tok.kword == Keywords.Enum) {
+          lexer.next();
+          const decl = parse_enum_decl(tok.pos);
+          if (!decl) return null;
+          const peek = lexer.peek();
+          if (peek.kind == TokenKind.Symbol && peek.sym == ';') {
+            lexer.next();
+          }
+          return decl;
+        }
+
+        if (tok.kword == Keywords.Union) {
+          lexer.next();
+          const decl = parse_union_decl(tok.pos);
+          if (!decl) return null;
+          const peek = lexer.peek();
+          if (peek.kind == TokenKind.Symbol && peek.sym == ';') {
+            lexer.next();
+          }
+          return decl;
+        }
+
+        if (tok.kword == Keywords.Import) {
+          lexer.next();
+          const imp = parse_import(tok.pos);
+          if (!imp) return null;
+          if (expect_symbol_next(';')) {
+            logger.info(tok.pos, 'Import is missing ending semi-colon');
+            return null;
+          }
+          return imp;
+        }
+
+        if (tok.kword == Keywords.Match) {
+          lexer.next();
+          const match = parse_match(tok.pos, false);
+          if (!match) return null;
+          const peek = lexer.peek();
+          if (peek.kind == TokenKind.Symbol && peek.sym == ';') {
+            lexer.next();
+          }
+          return match;
+        }
+
         if (tok.kword == Keywords.Func) {
           lexer.next();
           const func = this.parse_func();
@@ -307,6 +720,15 @@ class SimpParser {
         const expr = parse_expr();
         if (!expr) return null;
 
+        const next = lexer.peek();
+        if (next.kind == TokenKind.Symbol && is_assign_op(next.sym)) {
+          if (expr.kind != AstNodeKind.Ident && expr.kind != AstNodeKind.FieldAccess && expr.kind != AstNodeKind.Index) {
+            logger.error(next.pos, 'Invalid assignment target. Can only assign to variables, struct fields and array items');
+            return null;
+          }
+          return parse_assign(expr);
+        }
+
         if (expr.kind != AstNodeKind.FuncDecl) {
           if (expect_symbol_next(';')) {
             logger.info(tok.pos, 'Missing semicolon');
@@ -335,21 +757,65 @@ class SimpParser {
     return null;
   }
 
-  parse_func = (): FnDeclNode | null => {
+  // Lambdas have no name, receiver or type parameters and start directly with their arguments
+  parse_func = (lambda = false): FnDeclNode | null => {
     const {
       lexer, logger,
       parse_statement,
+      parse_type_name,
       expect_symbol_next,
       expect_ident,
     } = this;
 
     const pos = lexer.get_pos();
-    if (expect_ident()) return null;
-    const name = lexer.get_ident();
+    let receiver: FnDArgNode | null = null;
+    let peek = lexer.peek();
+    if (!lambda && peek.kind == TokenKind.Symbol && peek.sym == '(') {
+      lexer.next();
+      if (expect_ident()) return null;
+      const receiver_name = lexer.get_ident();
+      const receiver_pos = lexer.get_pos();
+      if (expect_symbol_next(':')) return null;
+      const receiver_type = parse_type_name();
+      if (!receiver_type) return null;
+      if (expect_symbol_next(')')) return null;
+      receiver = {
+        kind: AstNodeKind.FuncDclArg,
+        name: receiver_name,
+        pos: receiver_pos,
+        type: receiver_type,
+      };
+    }
+
+    let name = '';
+    if (!lambda) {
+      if (expect_ident()) return null;
+      name = lexer.get_ident();
+    }
 
     let returns = null as string | null;
     const body = [] as FnDeclNode['body'];
     const args = [] as Array<FnDArgNode>;
+    const generics = [] as FnDeclNode['generics'];
+
+    peek = lexer.peek();
+    if (!lambda && peek.kind == TokenKind.Symbol && peek.sym == '<') {
+      lexer.next();
+      while (true) {
+        if (expect_ident()) return null;
+        const generic = { name: lexer.get_ident(), constraint: null as string | null, pos: lexer.get_pos() };
+        if (expect_symbol_next(':', ',', '>')) return null;
+        let sym = lexer.get_symbol();
+        if (sym == ':') {
+          if (expect_ident()) return null;
+          generic.constraint = lexer.get_ident();
+          if (expect_symbol_next(',', '>')) return null;
+          sym = lexer.get_symbol();
+        }
+        generics.push(generic);
+        if (sym == '>') break;
+      }
+    }
 
     if (expect_symbol_next('(')) return null;
     // Parse arguments
@@ -371,11 +837,12 @@ class SimpParser {
         let peek = lexer.peek();
         if (peek.kind == TokenKind.Symbol && peek.sym == ':') {
           lexer.next();
-          if (expect_ident()) {
+          const arg_type = parse_type_name();
+          if (!arg_type) {
             logger.info(tok.pos, 'Expected the type name for function argument', vname);
             return null;
           }
-          type_name = lexer.get_ident();
+          type_name = arg_type;
         }
         // if (expect_symbol_next(',', ':')) return null;
         args.push({
@@ -399,11 +866,14 @@ class SimpParser {
     if (args.length == 0 && expect_symbol_next(')')) return null;
     if (expect_symbol_next('{', '->')) return null;
     if (lexer.get_symbol() == '->') {
-      if (expect_ident()) return null;
-      returns = lexer.get_ident();
+      returns = parse_type_name();
+      if (!returns) return null;
       if (expect_symbol_next('{')) return null;
     }
 
+    // Loops around a lambda do not reach into its body, `break` in there has no loop to leave
+    const outer_loop_depth = this.loop_depth;
+    this.loop_depth = 0;
     tok = lexer.peek();
     while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
       if (tok.kind === TokenKind.EOF) {
@@ -427,16 +897,109 @@ class SimpParser {
       tok = lexer.peek();
     }
     lexer.next();
+    this.loop_depth = outer_loop_depth;
 
     return {
       kind: AstNodeKind.FuncDecl,
       name, pos,
+      receiver,
+      generics,
       args,
       body, returns: returns ?? '()',
+      propagates: false,
+      defers: false,
+    };
+  }
+
+  // Every hole is parsed by its own parser, the lexer of the hole starts where the hole is in the file
+  parse_interp = (tok: StrToken): InterpNode | null => {
+    const { logger, file_path } = this;
+
+    const parts = [] as string[];
+    const holes = [] as AstExprNode[];
+    let last = 0;
+    for (const hole of tok.holes) {
+      parts.push(tok.string.substring(last, hole.at));
+      last = hole.at;
+
+      const hole_parser = new SimpParser(file_path, Lex(hole.src, hole.pos));
+      const expr = hole_parser.parse_expr();
+      if (!expr) {
+        logger.info(hole.pos, 'Invalid expression in interpolated string');
+        return null;
+      }
+      const end = hole_parser.lexer.next();
+      if (end.kind != TokenKind.EOF) {
+        logger.error(end.pos, `Unexpected ${end.kind} after the expression of an interpolated string hole`);
+        return null;
+      }
+      holes.push(expr);
+    }
+    parts.push(tok.string.substring(last));
+
+    return {
+      kind: AstNodeKind.Interp,
+      pos: tok.pos,
+      parts, holes,
     };
   }
 
+  // Casts bind tighter than any binop, `a + b as ui8` only converts `b`
   parse_expr = (): AstExprNode | null => {
+    const {
+      lexer,
+      parse_operand,
+      parse_cast,
+    } = this;
+
+    const expr = parse_operand();
+    if (!expr) return null;
+
+    const next = lexer.peek();
+    if (next.kind == TokenKind.Keyword && next.kword == Keywords.As) {
+      return parse_cast(expr);
+    }
+    return expr;
+  }
+
+  parse_cast = (expr: AstExprNode): AstExprNode | null => {
+    const {
+      lexer, logger,
+      parse_type_name,
+      parse_binop,
+      parse_pipe_op,
+      parse_cast,
+    } = this;
+
+    const as = lexer.next();
+    const type = parse_type_name();
+    if (!type) {
+      logger.info(as.pos, 'Expected the name of the type to cast into');
+      return null;
+    }
+    const cast: CastNode = {
+      kind: AstNodeKind.Cast,
+      pos: as.pos,
+      expr, type,
+      from: '()',
+    };
+
+    const next = lexer.peek();
+    if (next.kind == TokenKind.Keyword && next.kword == Keywords.As) {
+      return parse_cast(cast);
+    }
+    if (next.kind == TokenKind.Symbol) {
+      if (next.sym == '|>') {
+        return parse_pipe_op(cast);
+      }
+      if (is_binop(next.sym)) {
+        return parse_binop(cast);
+      }
+    }
+    return cast;
+  }
+
+  parse_operand = (): AstExprNode | null => {
     const {
       lexer, logger,
       parse_fn_call,
@@ -444,6 +1007,15 @@ class SimpParser {
       parse_func,
       parse_pipe_op,
       parse_expr,
+      parse_struct_lit,
+      parse_member_access,
+      parse_array_lit,
+      parse_unary_op,
+      parse_match,
+      parse_if_else,
+      parse_interp,
+      parse_try,
+      is_struct_lit_start,
       expect_symbol_next,
     } = this;
 
@@ -452,31 +1024,106 @@ class SimpParser {
       logger.error(tok.pos, 'Unexpected end of file while attempting to parse expression');
       return null;
     }
+    if (tok.kind == TokenKind.Keyword && tok.kword == Keywords.Match) {
+      return parse_match(tok.pos, true);
+    }
+    if (tok.kind == TokenKind.Keyword && tok.kword == Keywords.If) {
+      return parse_if_else(tok.pos, true);
+    }
+    if (tok.kind == TokenKind.Keyword && tok.kword == Keywords.Func) {
+      const lambda = parse_func(true);
+      if (!lambda) return null;
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol && next.sym == '|>') {
+        return parse_pipe_op(lambda);
+      }
+      return lambda;
+    }
+    if (tok.kind == TokenKind.Keyword && (tok.kword == Keywords.True || tok.kword == Keywords.False || tok.kword == Keywords.Null)) {
+      const lit: LiteralNode = tok.kword == Keywords.Null ? {
+        kind: AstNodeKind.Literal,
+        type: 'null',
+        value: null,
+        pos: tok.pos,
+      } : {
+        kind: AstNodeKind.Literal,
+        type: 'bool',
+        value: tok.kword == Keywords.True,
+        pos: tok.pos,
+      };
+
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol) {
+        if (next.sym == '|>') {
+          return parse_pipe_op(lit);
+        }
+        if (is_binop(next.sym)) {
+          return parse_binop(lit);
+        }
+      }
+
+      return lit;
+    }
     if (tok.kind == TokenKind.Keyword) {
       logger.error(tok.pos, 'Unexpected keyword ' + tok.kword + ' while attempting to parse expression');
       return null;
     }
 
+    if (tok.kind == TokenKind.Char) {
+      if (tok.error) {
+        logger.error(tok.error.pos, tok.error.message);
+        return null;
+      }
+      const lit: LiteralNode = {
+        kind: AstNodeKind.Literal,
+        type: 'char',
+        value: tok.char,
+        pos: tok.pos,
+      };
+
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol) {
+        if (next.sym == '|>') {
+          return parse_pipe_op(lit);
+        }
+        if (is_binop(next.sym)) {
+          return parse_binop(lit);
+        }
+      }
+
+      return lit;
+    }
+
     if (tok.kind == TokenKind.String) {
-      const str: LiteralNode = {
+      if (tok.error) {
+        logger.error(tok.error.pos, tok.error.message);
+        return null;
+      }
+      const str: LiteralNode | InterpNode | null = tok.holes.length > 0 ? parse_interp(tok) : {
         kind: AstNodeKind.Literal,
         type: 'str',
         value: tok.string,
         pos: tok.pos,
       };
+      if (!str) return null;
 
-      if ((lexer.peek() as SymToken).sym == '|>') {
-        return parse_pipe_op(str);
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol) {
+        if (next.sym == '.' || next.sym == '[') {
+          return parse_member_access(str);
+        }
+        if (next.sym == '|>') {
+          return parse_pipe_op(str);
+        }
+        if (is_binop(next.sym)) {
+          return parse_binop(str);
+        }
       }
 
       return str;
     }
 
     if (tok.kind == TokenKind.Ident) {
-      if (tok.ident == Keywords.Func) {
-        return parse_func();
-      }
-
       const peek = lexer.peek();
       if (peek.kind == TokenKind.Symbol && peek.sym == '(') {
         const fncall = parse_fn_call({
@@ -490,6 +1137,12 @@ class SimpParser {
         const next = lexer.peek();
 
         if (next.kind == TokenKind.Symbol) {
+          if (next.sym == '.' || next.sym == '[') {
+            return parse_member_access(fncall);
+          }
+          if (next.sym == '?') {
+            return parse_try(fncall);
+          }
           if (next.sym == '|>') {
             return parse_pipe_op(fncall);
           }
@@ -500,10 +1153,27 @@ class SimpParser {
 
         return fncall;
       }
-    }
 
-    if (tok.kind == TokenKind.Integer || tok.kind == TokenKind.Ident) {
-      const base = tok;
+      if (peek.kind == TokenKind.Symbol && peek.sym == '{' && is_struct_lit_start()) {
+        const lit = parse_struct_lit(tok);
+        if (!lit) return null;
+
+        const next = lexer.peek();
+        if (next.kind == TokenKind.Symbol) {
+          if (next.sym == '.') {
+            return parse_member_access(lit);
+          }
+          if (next.sym == '|>') {
+            return parse_pipe_op(lit);
+          }
+        }
+
+        return lit;
+      }
+    }
+
+    if (tok.kind == TokenKind.Integer || tok.kind == TokenKind.Float || tok.kind == TokenKind.Ident) {
+      const base = tok;
       tok = lexer.peek();
       if (tok.kind != TokenKind.Symbol) {
         if (base.kind == TokenKind.Integer) {
@@ -511,6 +1181,14 @@ class SimpParser {
             kind: AstNodeKind.Literal,
             type: 'int',
             value: base.int,
+            int_type: 'sisz',
+            pos: tok.pos,
+          };
+        } else if (base.kind == TokenKind.Float) {
+          return {
+            kind: AstNodeKind.Literal,
+            type: 'flt',
+            value: base.flt,
             pos: tok.pos,
           };
         } else if (base.kind == TokenKind.Ident) {
@@ -541,6 +1219,15 @@ class SimpParser {
             kind: AstNodeKind.Literal,
             pos: base.pos, type: 'int',
             value: base.int,
+            int_type: 'sisz',
+          };
+          break;
+
+        case TokenKind.Float:
+          lhs = {
+            kind: AstNodeKind.Literal,
+            pos: base.pos, type: 'flt',
+            value: base.flt,
           };
           break;
       }
@@ -550,17 +1237,49 @@ class SimpParser {
         return parse_pipe_op(lhs);
       }
 
+      if ((tok.sym == '.' || tok.sym == '[') && lhs.kind == AstNodeKind.Ident) {
+        return parse_member_access(lhs);
+      }
+
+      if (tok.sym == '?' && lhs.kind == AstNodeKind.Ident) {
+        return parse_try(lhs);
+      }
+
       if (!is_binop(tok.sym)) return lhs;
 
       return parse_binop(lhs);
     }
 
+    if (is_unary_op(tok.sym)) {
+      return parse_unary_op(tok);
+    }
+
     if (tok.sym == '"') {
       logger.error(tok.pos, `Unexpected symbol '${tok.sym}'`);
       logger.info(tok.pos, 'If you are trying to write a string literal we use the following syntax for it: `string content\'');
       return null;
     }
 
+    if (tok.sym == '[') {
+      const lit = parse_array_lit(tok.pos);
+      if (!lit) return null;
+
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol) {
+        if (next.sym == '.' || next.sym == '[') {
+          return parse_member_access(lit);
+        }
+        if (next.sym == '|>') {
+          return parse_pipe_op(lit);
+        }
+        if (is_binop(next.sym)) {
+          return parse_binop(lit);
+        }
+      }
+
+      return lit;
+    }
+
     if (tok.sym == '(') {
       const expr = parse_expr();
       if (expect_symbol_next(')')) {
@@ -573,56 +1292,660 @@ class SimpParser {
         item: expr,
       };
 
-      if ((lexer.peek() as SymToken).sym == '|>') {
-        return parse_pipe_op(grouped);
+      const next = lexer.peek();
+      if (next.kind == TokenKind.Symbol) {
+        if (next.sym == '?') {
+          return parse_try(grouped);
+        }
+        if (next.sym == '|>') {
+          return parse_pipe_op(grouped);
+        }
+        if (is_binop(next.sym)) {
+          return parse_binop(grouped);
+        }
+      }
+
+      return grouped;
+    }
+
+    logger.error(tok.pos, 'Parser mishap');
+    compiler_logger.info(get_current_line(), `Parser Mishap: Unhandled token kind ${tok.kind}`);
+    console.log('stacktrace', (new Error()).stack);
+    return null;
+  }
+
+  parse_fn_call = (ident: IdentNode): FnCallNode | null => {
+    const {
+      lexer: l, logger,
+      parse_expr,
+      expect_symbol_next,
+    } = this;
+
+    const args = [] as FnCallNode['args'];
+    if (expect_symbol_next('(')) {
+      compiler_logger.error(get_current_line(), `Compiler attempting to parse function call when missing '('`);
+      return null;
+    }
+
+    let tok = l.peek();
+    if (tok.kind != TokenKind.Symbol || tok.sym != ')') {
+      while (tok.kind != TokenKind.EOF) {
+        if (tok.kind == TokenKind.Symbol && tok.sym == ')') break;
+        const expr = parse_expr();
+        if (!expr) return null;
+        args.push(expr);
+        if (expect_symbol_next(')', ',')) return null;
+        tok = l.get_token() as SymToken;
+      }
+    } else {
+      tok = l.next();
+    }
+    if (tok.kind == TokenKind.EOF) {
+      logger.error(ident.pos, 'Unexpectede end of file while parsing function call');
+      return null;
+    }
+
+    return {
+      kind: AstNodeKind.FuncCall,
+      name: ident.ident,
+      pos: ident.pos,
+      args,
+      lambda: null,
+      result: '()',
+      type_args: {},
+    };
+  }
+
+  parse_struct_decl = (pos: CursorPosition): StructDeclNode | null => {
+    const {
+      lexer, logger,
+      expect_ident,
+      parse_type_name,
+      expect_symbol_next,
+    } = this;
+
+    if (expect_ident()) {
+      logger.info(pos, 'When declaring a struct a name must be given to it');
+      return null;
+    }
+    const name = lexer.get_ident();
+    const fields: StructDeclNode['fields'] = [];
+
+    if (expect_symbol_next('{')) return null;
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(tok.pos, 'Expected symbol \'}\' but got EoF');
+        logger.info(pos, `Start of struct ${name}`);
+        return null;
+      }
+
+      if (expect_ident()) {
+        logger.info(lexer.get_pos(), 'Expected the name of a struct field');
+        return null;
+      }
+      const field_name = lexer.get_ident();
+      const field_pos = lexer.get_pos();
+      if (expect_symbol_next(':')) {
+        logger.info(field_pos, 'Struct fields must be given a type: `name: type`');
+        return null;
+      }
+      const field_type = parse_type_name();
+      if (!field_type) {
+        logger.info(field_pos, 'Expected the type name for struct field', field_name);
+        return null;
+      }
+      fields.push({
+        name: field_name,
+        type: field_type,
+        pos: field_pos,
+      });
+
+      if (expect_symbol_next('}', ',')) return null;
+      if (lexer.get_symbol() == '}') break;
+      tok = lexer.peek();
+    }
+    if (lexer.get_symbol() != '}') lexer.next();
+
+    return {
+      kind: AstNodeKind.StructDecl,
+      pos,
+      name, fields,
+    };
+  }
+
+  parse_enum_decl = (pos: CursorPosition): EnumDeclNode | null => {
+    const {
+      lexer, logger,
+      expect_ident,
+      expect_int,
+      expect_symbol_next,
+    } = this;
+
+    if (expect_ident()) {
+      logger.info(pos, 'When declaring an enum a name must be given to it');
+      return null;
+    }
+    const name = lexer.get_ident();
+    const values: EnumDeclNode['values'] = [];
+
+    if (expect_symbol_next('{')) return null;
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(tok.pos, 'Expected symbol \'}\' but got EoF');
+        logger.info(pos, `Start of enum ${name}`);
+        return null;
+      }
+
+      if (expect_ident()) {
+        logger.info(lexer.get_pos(), 'Expected the name of an enum value');
+        return null;
+      }
+      const value_name = lexer.get_ident();
+      const value_pos = lexer.get_pos();
+      let value: number | null = null;
+
+      if (expect_symbol_next('}', ',', '=')) return null;
+      if (lexer.get_symbol() == '=') {
+        if (expect_int()) {
+          logger.info(value_pos, 'Enum values can only be set to integer literals');
+          return null;
+        }
+        const int_tok = lexer.get_token();
+        if (int_tok.kind == TokenKind.Integer) value = Number(int_tok.int);
+        if (expect_symbol_next('}', ',')) return null;
+      }
+
+      values.push({
+        name: value_name,
+        value,
+        pos: value_pos,
+      });
+
+      if (lexer.get_symbol() == '}') break;
+      tok = lexer.peek();
+    }
+    if (lexer.get_symbol() != '}') lexer.next();
+
+    return {
+      kind: AstNodeKind.EnumDecl,
+      pos,
+      name, values,
+    };
+  }
+
+  parse_union_decl = (pos: CursorPosition): UnionDeclNode | null => {
+    const {
+      lexer, logger,
+      expect_ident,
+      parse_type_name,
+      expect_symbol_next,
+    } = this;
+
+    if (expect_ident()) {
+      logger.info(pos, 'When declaring a union a name must be given to it');
+      return null;
+    }
+    const name = lexer.get_ident();
+    const variants: UnionDeclNode['variants'] = [];
+
+    if (expect_symbol_next('{')) return null;
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(tok.pos, 'Expected symbol \'}\' but got EoF');
+        logger.info(pos, `Start of union ${name}`);
+        return null;
+      }
+
+      if (expect_ident()) {
+        logger.info(lexer.get_pos(), 'Expected the name of a union variant');
+        return null;
+      }
+      const variant_name = lexer.get_ident();
+      const variant_pos = lexer.get_pos();
+      const types: string[] = [];
+
+      if (expect_symbol_next('}', ',', '(')) return null;
+      if (lexer.get_symbol() == '(') {
+        tok = lexer.peek();
+        while (tok.kind != TokenKind.Symbol || tok.sym != ')') {
+          const held_type = parse_type_name();
+          if (!held_type) {
+            logger.info(variant_pos, 'Expected the type name for the values of union variant', variant_name);
+            return null;
+          }
+          types.push(held_type);
+          if (expect_symbol_next(')', ',')) return null;
+          if (lexer.get_symbol() == ')') break;
+          tok = lexer.peek();
+        }
+        if (lexer.get_symbol() != ')') lexer.next();
+        if (expect_symbol_next('}', ',')) return null;
+      }
+
+      variants.push({
+        name: variant_name,
+        types,
+        pos: variant_pos,
+      });
+
+      if (lexer.get_symbol() == '}') break;
+      tok = lexer.peek();
+    }
+    if (lexer.get_symbol() != '}') lexer.next();
+
+    return {
+      kind: AstNodeKind.UnionDecl,
+      pos,
+      name, variants,
+    };
+  }
+
+  // Parses both `import \`./math.efu';` and `import { add, sub } from \`./math.efu';`
+  parse_import = (pos: CursorPosition): ImportNode | null => {
+    const {
+      lexer, logger,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    let names: ImportNode['names'] = null;
+    let tok = lexer.peek();
+    if (tok.kind == TokenKind.Symbol && tok.sym == '{') {
+      lexer.next();
+      names = [];
+      tok = lexer.peek();
+      while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+        if (expect_ident()) {
+          logger.info(pos, 'Expected the name of a declaration to import');
+          return null;
+        }
+        names.push({ name: lexer.get_ident(), pos: lexer.get_pos() });
+        if (expect_symbol_next('}', ',')) return null;
+        if (lexer.get_symbol() == '}') break;
+        tok = lexer.peek();
+      }
+      if (lexer.get_symbol() != '}') lexer.next();
+
+      if (names.length == 0) {
+        logger.error(pos, 'An import list must name at least one declaration');
+        return null;
+      }
+
+      tok = lexer.next();
+      if (tok.kind != TokenKind.Ident || tok.ident != 'from') {
+        logger.error(tok.pos, `Expected 'from' after the import list but got ${tok.kind}`);
+        return null;
+      }
+    }
+
+    tok = lexer.next();
+    if (tok.kind != TokenKind.String) {
+      logger.error(tok.pos, `Expected the path of the imported module as a string but got ${tok.kind}`);
+      return null;
+    }
+    if (tok.error) {
+      logger.error(tok.error.pos, tok.error.message);
+      return null;
+    }
+    if (tok.string.length == 0) {
+      logger.error(tok.pos, 'The path of an imported module can not be empty');
+      return null;
+    }
+    if (tok.holes.length > 0) {
+      logger.error(tok.pos, 'The path of an imported module can not be interpolated');
+      return null;
+    }
+
+    return {
+      kind: AstNodeKind.Import,
+      pos,
+      path: tok.string,
+      names,
+    };
+  }
+
+  parse_match = (pos: CursorPosition, is_expr: boolean): MatchNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      parse_block,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    const subject = parse_expr();
+    if (!subject) return null;
+    if (expect_symbol_next('{')) {
+      logger.info(pos, 'The arms of a match must be wrapped in braces');
+      return null;
+    }
+
+    const arms: MatchNode['arms'] = [];
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(tok.pos, 'Expected symbol \'}\' but got EoF');
+        logger.info(pos, 'Start of match');
+        return null;
+      }
+
+      if (expect_ident()) {
+        logger.info(lexer.get_pos(), 'Match arms must start with the name of a variant or `_`');
+        return null;
+      }
+      const variant = lexer.get_ident();
+      const arm_pos = lexer.get_pos();
+      const bindings: string[] = [];
+
+      if (expect_symbol_next('=>', '(')) return null;
+      if (lexer.get_symbol() == '(') {
+        tok = lexer.peek();
+        while (tok.kind != TokenKind.Symbol || tok.sym != ')') {
+          if (expect_ident()) {
+            logger.info(arm_pos, 'Expected a name to bind the value of variant', variant);
+            return null;
+          }
+          bindings.push(lexer.get_ident());
+          if (expect_symbol_next(')', ',')) return null;
+          if (lexer.get_symbol() == ')') break;
+          tok = lexer.peek();
+        }
+        if (lexer.get_symbol() != ')') lexer.next();
+        if (expect_symbol_next('=>')) return null;
+      }
+
+      let body: SimpNode[];
+      if (is_expr) {
+        const expr = parse_expr();
+        if (!expr) return null;
+        body = [expr];
+        if (expect_symbol_next('}', ',')) return null;
+      } else {
+        const block = parse_block(arm_pos, `match arm ${variant}`);
+        if (!block) return null;
+        body = block;
+        tok = lexer.peek();
+        if (tok.kind == TokenKind.Symbol && tok.sym == ',') lexer.next();
+      }
+
+      arms.push({ variant, bindings, body, pos: arm_pos });
+
+      if (is_expr && lexer.get_symbol() == '}') break;
+      tok = lexer.peek();
+    }
+    if (!is_expr || lexer.get_symbol() != '}') lexer.next();
+
+    return {
+      kind: AstNodeKind.Match,
+      pos,
+      subject,
+      is_expr,
+      type: '()',
+      union: '()',
+      arms,
+    };
+  }
+
+  parse_array_lit = (pos: CursorPosition): ArrayLitNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      expect_symbol_next,
+    } = this;
+
+    const items: AstExprNode[] = [];
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != ']') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(tok.pos, 'Expected symbol \']\' but got EoF');
+        logger.info(pos, 'Start of array literal');
+        return null;
+      }
+
+      const item = parse_expr();
+      if (!item) return null;
+      items.push(item);
+
+      if (expect_symbol_next(']', ',')) return null;
+      if (lexer.get_symbol() == ']') break;
+      tok = lexer.peek();
+    }
+    if (lexer.get_symbol() != ']') lexer.next();
+
+    return {
+      kind: AstNodeKind.ArrayLit,
+      pos,
+      items,
+      type: '()',
+    };
+  }
+
+  is_struct_lit_start = (): boolean => {
+    // Struct literals are only told apart from blocks (`while running { ... }`) by starting with `{ field:`
+    const lookahead = this.lexer.clone();
+    const brace = lookahead.next();
+    if (brace.kind != TokenKind.Symbol || brace.sym != '{') return false;
+    if (lookahead.next().kind != TokenKind.Ident) return false;
+    const colon = lookahead.next();
+    return colon.kind == TokenKind.Symbol && colon.sym == ':';
+  }
+
+  parse_struct_lit = (ident: IdentToken): StructLitNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    const fields: StructLitNode['fields'] = [];
+    if (expect_symbol_next('{')) {
+      compiler_logger.error(get_current_line(), `Compiler attempting to parse struct literal when missing '{'`);
+      return null;
+    }
+
+    let tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      if (tok.kind == TokenKind.EOF) {
+        logger.error(ident.pos, 'Unexpected end of file while parsing struct literal');
+        return null;
+      }
+
+      if (expect_ident()) {
+        logger.info(lexer.get_pos(), 'Expected the name of a struct field');
+        return null;
+      }
+      const name = lexer.get_ident();
+      const pos = lexer.get_pos();
+      if (expect_symbol_next(':')) return null;
+
+      const value = parse_expr();
+      if (!value) {
+        logger.info(pos, `Missing value for field ${name}`);
+        return null;
+      }
+      fields.push({ name, value, pos });
+
+      if (expect_symbol_next('}', ',')) return null;
+      if (lexer.get_symbol() == '}') break;
+      tok = lexer.peek();
+    }
+    if (lexer.get_symbol() != '}') lexer.next();
+
+    return {
+      kind: AstNodeKind.StructLit,
+      pos: ident.pos,
+      name: ident.ident,
+      fields,
+    };
+  }
+
+  // Parses the chain of `.field`, `.method(..)` and `[index]` following an expression
+  parse_member_access = (base: FieldAccessNode['base']): AstExprNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      parse_binop,
+      parse_pipe_op,
+      parse_fn_call,
+      parse_try,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    let node: FieldAccessNode | MethodCallNode | IndexNode | null = null;
+    let tok = lexer.peek();
+    while (tok.kind == TokenKind.Symbol && (tok.sym == '.' || tok.sym == '[')) {
+      lexer.next();
+      if (tok.sym == '[') {
+        const pos = tok.pos;
+        const index = parse_expr();
+        if (!index) return null;
+        if (expect_symbol_next(']')) {
+          logger.info(pos, 'Missing to close index with \']\'');
+          return null;
+        }
+        node = {
+          kind: AstNodeKind.Index,
+          pos,
+          base: node ?? base,
+          index,
+        };
+        tok = lexer.peek();
+        continue;
+      }
+
+      if (expect_ident()) {
+        logger.info(tok.pos, 'Expected the name of a field after \'.\'');
+        return null;
+      }
+      const member: IdentNode = {
+        kind: AstNodeKind.Ident,
+        pos: lexer.get_pos(),
+        ident: lexer.get_ident(),
+      };
+
+      tok = lexer.peek();
+      if (tok.kind == TokenKind.Symbol && tok.sym == '(') {
+        const call = parse_fn_call(member);
+        if (!call) return null;
+        node = {
+          kind: AstNodeKind.MethodCall,
+          pos: member.pos,
+          base: node ?? base,
+          name: call.name,
+          args: call.args,
+          receiver: '()',
+          result: '()',
+        };
+        tok = lexer.peek();
+        continue;
+      }
+
+      node = {
+        kind: AstNodeKind.FieldAccess,
+        pos: member.pos,
+        base: node ?? base,
+        field: member.ident,
+        property: false,
+        receiver: '()',
+      };
+    }
+
+    if (!node) {
+      compiler_logger.error(get_current_line(), `Compiler attempting to parse member access when missing '.' or '['`);
+      return null;
+    }
+
+    if (tok.kind == TokenKind.Symbol) {
+      if (tok.sym == '?') {
+        return parse_try(node);
+      }
+      if (tok.sym == '|>') {
+        return parse_pipe_op(node);
+      }
+      if (is_binop(tok.sym)) {
+        return parse_binop(node);
+      }
+    }
+
+    return node;
+  }
+
+  // Parses the `?` following an expression, the value it produces can be used like the result of a call
+  parse_try = (expr: AstExprNode): AstExprNode | null => {
+    const {
+      lexer,
+      parse_binop,
+      parse_pipe_op,
+      parse_member_access,
+    } = this;
+
+    const tok = lexer.next();
+    const node: TryNode = {
+      kind: AstNodeKind.Try,
+      pos: tok.pos,
+      expr,
+    };
+
+    const next = lexer.peek();
+    if (next.kind == TokenKind.Symbol) {
+      if (next.sym == '.' || next.sym == '[') {
+        return parse_member_access(node);
+      }
+      if (next.sym == '|>') {
+        return parse_pipe_op(node);
+      }
+      if (is_binop(next.sym)) {
+        return parse_binop(node);
       }
-
-      return grouped;
     }
 
-    logger.error(tok.pos, 'Parser mishap');
-    compiler_logger.info(get_current_line(), `Parser Mishap: Unhandled token kind ${tok.kind}`);
-    console.log('stacktrace', (new Error()).stack);
-    return null;
+    return node;
   }
 
-  parse_fn_call = (ident: IdentNode): FnCallNode | null => {
+  parse_unary_op = (tok: SymToken): AstExprNode | null => {
     const {
-      lexer: l, logger,
+      logger,
       parse_expr,
-      expect_symbol_next,
     } = this;
 
-    const args = [] as FnCallNode['args'];
-    if (expect_symbol_next('(')) {
-      compiler_logger.error(get_current_line(), `Compiler attempting to parse function call when missing '('`);
+    const op = tok.sym as UnaryOperator;
+    const operand = parse_expr();
+    if (!operand) {
+      logger.info(tok.pos, `Missing the value to apply the unary operator '${op}' to`);
       return null;
     }
 
-    let tok = l.peek();
-    if (tok.kind != TokenKind.Symbol || tok.sym != ')') {
-      while (tok.kind != TokenKind.EOF) {
-        if (tok.kind == TokenKind.Symbol && tok.sym == ')') break;
-        const expr = parse_expr();
-        if (!expr) return null;
-        args.push(expr);
-        if (expect_symbol_next(')', ',')) return null;
-        tok = l.get_token() as SymToken;
+    const apply = (value: AstExprNode): AstExprNode => {
+      // Unary operators bind tighter than any binop so they apply to the left most value of the expression
+      if (value.kind == AstNodeKind.Binop) {
+        value.lhs = apply(value.lhs as AstExprNode);
+        return value;
+      }
+      if (value.kind == AstNodeKind.PipeOp) {
+        value.val = apply(value.val) as PipeOpNode['val'];
+        return value;
       }
-    } else {
-      tok = l.next();
-    }
-    if (tok.kind == TokenKind.EOF) {
-      logger.error(ident.pos, 'Unexpectede end of file while parsing function call');
-      return null;
-    }
 
-    return {
-      kind: AstNodeKind.FuncCall,
-      name: ident.ident,
-      pos: ident.pos,
-      args,
+      if (op == '-' && value.kind == AstNodeKind.Literal && (value.type == 'int' || value.type == 'flt')) {
+        value.value = -value.value;
+        value.pos = tok.pos;
+        return value;
+      }
+      return {
+        kind: AstNodeKind.UnaryOp,
+        pos: tok.pos,
+        op,
+        expr: value,
+        type: '()',
+      };
     };
+
+    return apply(operand);
   }
 
   parse_binop = (lhs: Exclude<BinopItemNode, BinopNode>): BinopNode | null => {
@@ -656,6 +1979,17 @@ class SimpParser {
       && rhs_expr.kind != AstNodeKind.Ident
       && rhs_expr.kind != AstNodeKind.Binop
       && rhs_expr.kind != AstNodeKind.FuncCall
+      && rhs_expr.kind != AstNodeKind.FieldAccess
+      && rhs_expr.kind != AstNodeKind.MethodCall
+      && rhs_expr.kind != AstNodeKind.ArrayLit
+      && rhs_expr.kind != AstNodeKind.Index
+      && rhs_expr.kind != AstNodeKind.UnaryOp
+      && rhs_expr.kind != AstNodeKind.Cast
+      && rhs_expr.kind != AstNodeKind.Try
+      && rhs_expr.kind != AstNodeKind.Interp
+      && rhs_expr.kind != AstNodeKind.Expr
+      // If expressions reach the end of the expression so they are only ever the right side
+      && rhs_expr.kind != AstNodeKind.IfElse
     ) {
       logger.error(pos, 'Right side of binop is of an invalid type', rhs_expr.kind);
       return null;
@@ -663,22 +1997,28 @@ class SimpParser {
 
     const rhs: BinopItemNode = rhs_expr;
 
-    if (rhs.kind == AstNodeKind.Binop) {
-      if (get_binop_precedence(rhs.op) < get_binop_precedence(op)) {
-        const binop: BinopNode = {
-          kind: AstNodeKind.Binop,
-          op, pos,
-          lhs, rhs: rhs.lhs,
-        };
-        rhs.lhs = binop;
-        return rhs;
+    // The right side was parsed first so `lhs op` has to sink into it until it reaches operators that
+    // bind tighter than `op`, which keeps operators of the same precedence left associative
+    const precedence = get_binop_precedence(op);
+    if (rhs.kind == AstNodeKind.Binop && get_binop_precedence(rhs.op) <= precedence) {
+      let target = rhs;
+      while (target.lhs.kind == AstNodeKind.Binop && get_binop_precedence(target.lhs.op) <= precedence) {
+        target = target.lhs;
       }
+      target.lhs = {
+        kind: AstNodeKind.Binop,
+        op, pos,
+        lhs, rhs: target.lhs,
+        type: '()',
+      };
+      return rhs;
     }
 
     return {
       kind: AstNodeKind.Binop,
       op, pos,
       lhs, rhs,
+      type: '()',
     };
   }
 
@@ -696,10 +2036,20 @@ class SimpParser {
 
     let expr = parse_expr();
     if (!expr) return null;
-    if (expr.kind != AstNodeKind.Ident && expr.kind != AstNodeKind.FuncCall && expr.kind != AstNodeKind.PipeOp) {
-      logger.error(expr.pos, 'Invalid pipe target. Can only pipe towards functions and partial function calls');
+    const target = expr.kind == AstNodeKind.PipeOp ? expr.val : expr;
+    if (target.kind != AstNodeKind.Ident && target.kind != AstNodeKind.FuncCall
+      && target.kind != AstNodeKind.MethodCall && target.kind != AstNodeKind.FuncDecl) {
+      logger.error(expr.pos, 'Invalid pipe target. Can only pipe towards functions, lambdas and partial function or method calls');
       return null;
     }
+    if (target.kind == AstNodeKind.FuncCall || target.kind == AstNodeKind.MethodCall) {
+      const holes = target.args.filter(is_pipe_placeholder).length
+        + (target.kind == AstNodeKind.MethodCall && is_pipe_placeholder(target.base) ? 1 : 0);
+      if (holes > 1) {
+        logger.error(target.pos, `The piped value can only be placed once but the pipe target has ${holes} \`_\` placeholders`);
+        return null;
+      }
+    }
 
     if (expr.kind == 'pop') {
       return {
@@ -723,11 +2073,12 @@ class SimpParser {
     };
   }
 
-  parse_if_else = (pos: CursorPosition): IfElseNode | null => {
+  parse_if_else = (pos: CursorPosition, is_expr: boolean = false): IfElseNode | null => {
     const {
       lexer, logger,
       parse_expr,
       parse_statement,
+      parse_if_expr_branches,
       expect_symbol_next,
     } = this;
     // if (expect_symbol_next('(')) return null;
@@ -738,6 +2089,8 @@ class SimpParser {
       return null;
     }
     // if (expect_symbol_next(')')) return null;
+    if (is_expr) return parse_if_expr_branches(pos, cond);
+
     const body: IfElseNode['body'] = [];
     let tok = lexer.peek();
     if (tok.kind == TokenKind.Symbol && tok.sym == '{') {
@@ -811,9 +2164,207 @@ class SimpParser {
       cond,
       body,
       else: othr,
+      narrowed: null,
+      is_expr: false,
+      type: '()',
+    };
+  }
+
+  parse_if_expr_branches = (pos: CursorPosition, cond: SimpNode): IfElseNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      expect_symbol_next,
+    } = this;
+
+    // Braces around the expression of a branch are optional, `else if` chains are parsed as the expression
+    // of the else branch
+    const parse_branch = (): SimpNode | null => {
+      const tok = lexer.peek();
+      if (tok.kind != TokenKind.Symbol || tok.sym != '{') return parse_expr();
+      lexer.next();
+      const expr = parse_expr();
+      if (!expr) return null;
+      if (expect_symbol_next('}')) {
+        logger.info(tok.pos, 'The branch of an if expression holds a single expression');
+        return null;
+      }
+      return expr;
+    };
+
+    const value = parse_branch();
+    if (!value) return null;
+    const tok = lexer.peek();
+    if (tok.kind != TokenKind.Ident || tok.ident != 'else') {
+      logger.error(tok.pos, 'An if expression must have an else branch');
+      logger.info(pos, 'Start of if expression');
+      return null;
+    }
+    lexer.next();
+    const other = parse_branch();
+    if (!other) return null;
+
+    return {
+      kind: AstNodeKind.IfElse,
+      pos,
+      cond,
+      body: [value],
+      else: [other],
+      narrowed: null,
+      is_expr: true,
+      type: '()',
+    };
+  }
+
+  parse_assign = (target: AssignNode['target']): AssignNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      expect_symbol_next,
+    } = this;
+
+    if (expect_symbol_next(...ASSIGN_OPS)) {
+      compiler_logger.error(get_current_line(), 'Attempting to parse assignment but no assignment symbol in lexer');
+      return null;
+    }
+    const op = lexer.get_symbol() as AssignOperator;
+    const pos = lexer.get_pos();
+
+    let value: AssignNode['value'] = null;
+    if (op != '++' && op != '--') {
+      value = parse_expr();
+      if (!value) {
+        logger.info(pos, 'Right side of assignment is missing');
+        return null;
+      }
+    }
+
+    if (expect_symbol_next(';')) {
+      logger.info(pos, 'Statement is missing ending semi-colon');
+      return null;
+    }
+
+    return {
+      kind: AstNodeKind.Assign,
+      pos,
+      op, target, value,
+      type: '()',
+    };
+  }
+
+  parse_while = (pos: CursorPosition): WhileNode | null => {
+    const {
+      logger,
+      parse_expr,
+      parse_block,
+    } = this;
+
+    const cond = parse_expr();
+    if (!cond) return null;
+    if (cond.kind == AstNodeKind.FuncDecl) {
+      logger.error(cond.pos, 'Cannot set a function declaration as a while loop\'s condition');
+      return null;
+    }
+
+    this.loop_depth++;
+    const body = parse_block(pos, 'while loop');
+    this.loop_depth--;
+    if (!body) return null;
+
+    return {
+      kind: AstNodeKind.While,
+      pos,
+      cond,
+      body,
+    };
+  }
+
+  parse_for = (pos: CursorPosition): ForNode | null => {
+    const {
+      lexer, logger,
+      parse_expr,
+      parse_block,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    if (expect_ident()) {
+      logger.info(pos, 'Expected the name of the for loop iterator');
+      return null;
+    }
+    const iter: ForNode['iter'] = {
+      name: lexer.get_ident(),
+      type: '()',
+      pos: lexer.get_pos(),
+    };
+
+    const tok = lexer.next();
+    if (tok.kind != TokenKind.Ident || tok.ident != 'in') {
+      logger.error(tok.pos, `Expected 'in' after the for loop iterator but got ${tok.kind}`);
+      return null;
+    }
+
+    const start = parse_expr();
+    if (!start) return null;
+    if (expect_symbol_next('..')) {
+      logger.info(start.pos, 'For loops iterate over a range with the following syntax: `for i in start..end`');
+      return null;
+    }
+    const end = parse_expr();
+    if (!end) return null;
+
+    this.loop_depth++;
+    const body = parse_block(pos, 'for loop');
+    this.loop_depth--;
+    if (!body) return null;
+
+    return {
+      kind: AstNodeKind.For,
+      pos,
+      iter,
+      start, end,
+      body,
     };
   }
 
+  parse_block = (pos: CursorPosition, name: string): SimpNode[] | null => {
+    const {
+      lexer, logger,
+      parse_statement,
+    } = this;
+
+    const body: SimpNode[] = [];
+    let tok = lexer.peek();
+    if (tok.kind != TokenKind.Symbol || tok.sym != '{') {
+      const stmt = parse_statement();
+      if (!stmt) return null;
+      if (stmt.kind == AstNodeKind.EOF) {
+        logger.info(lexer.get_pos(), `Unexpected end of file when attempting to read body of ${name}`);
+        logger.info(pos, `Start of ${name}`);
+        return null;
+      }
+      body.push(stmt);
+      return body;
+    }
+
+    lexer.next();
+    tok = lexer.peek();
+    while (tok.kind != TokenKind.Symbol || tok.sym != '}') {
+      const stmt = parse_statement();
+      if (!stmt) return null;
+      if (stmt.kind == AstNodeKind.EOF) {
+        logger.info(lexer.get_pos(), `Missing to close ${name} block`);
+        logger.info(pos, `Start of ${name}`);
+        return null;
+      }
+      body.push(stmt);
+      tok = lexer.peek();
+    }
+    lexer.next();
+
+    return body;
+  }
+
   expect_kind = (k: TokenKind, ...ekinds: TokenKind[]) => {
     const { lexer, logger } = this;
     const tok = lexer.next();
@@ -884,6 +2435,83 @@ class SimpParser {
     return false;
   }
 
+  // Reads a type name such as `sisz`, `sisz[]`, `sisz[3]`, `sisz!string` or `fn(sisz) -> sisz` and returns it in
+  // the form `parse_type_from_str` expects
+  parse_type_name = (): string | null => {
+    const {
+      lexer, logger,
+      parse_type_name,
+      expect_ident,
+      expect_symbol_next,
+    } = this;
+
+    let tok = lexer.peek();
+    if (tok.kind == TokenKind.Keyword && tok.kword == Keywords.Func) {
+      lexer.next();
+      if (expect_symbol_next('(')) return null;
+      const args = [] as string[];
+      tok = lexer.peek();
+      if (tok.kind == TokenKind.Symbol && tok.sym == ')') {
+        lexer.next();
+      } else {
+        while (true) {
+          const arg = parse_type_name();
+          if (!arg) return null;
+          args.push(arg);
+          if (expect_symbol_next(',', ')')) return null;
+          if (lexer.get_symbol() == ')') break;
+        }
+      }
+
+      let returns: string | null = 'void';
+      tok = lexer.peek();
+      if (tok.kind == TokenKind.Symbol && tok.sym == '->') {
+        lexer.next();
+        returns = parse_type_name();
+        if (!returns) return null;
+      }
+      // Same form as `get_type_name` so function types can be compared by name
+      return `fn(${args.join(', ')}) -> ${returns}`;
+    }
+
+    if (expect_ident()) return null;
+    let name = lexer.get_ident();
+
+    tok = lexer.peek();
+    while (tok.kind == TokenKind.Symbol && (tok.sym == '[' || tok.sym == '?' || tok.sym == '??')) {
+      lexer.next();
+      // `T??` is lexed as a single symbol, the type checker rejects it
+      if (tok.sym == '?' || tok.sym == '??') {
+        name += tok.sym;
+        tok = lexer.peek();
+        continue;
+      }
+      tok = lexer.peek();
+      if (tok.kind == TokenKind.Integer) {
+        lexer.next();
+        if (tok.int < 0n) {
+          logger.error(tok.pos, 'The size of an array type can not be negative');
+          return null;
+        }
+        name += `[${tok.int}]`;
+      } else {
+        name += '[]';
+      }
+      if (expect_symbol_next(']')) return null;
+      tok = lexer.peek();
+    }
+
+    // Results are written as the type of their value and the type of their error `T!E`
+    if (tok.kind == TokenKind.Symbol && tok.sym == '!') {
+      lexer.next();
+      const err = parse_type_name();
+      if (!err) return null;
+      name += '!' + err;
+    }
+
+    return name;
+  }
+
   expect_ident = () => {
     const { lexer, logger } = this;
 
@@ -901,7 +2529,86 @@ class SimpParser {
 export const is_math_operator = (op: string): op is MathOperator => MATH_BINOPS.includes(op as any);
 export const is_logic_operator = (op: string): op is LogicalOperator => LOGIC_BINOPS.includes(op as any);
 export const is_cmp_operator = (op: string): op is ComparisonOperator => CMP_BINOPS.includes(op as any);
+export const is_bitwise_operator = (op: string): op is BitwiseOperator => BITWISE_BINOPS.includes(op as any);
+
+
+// Splits a function type name such as `fn(sisz, flt64) -> sisz` into the names of its argument and return types
+export function split_fn_type_name(name: string): { args: string[]; returns: string } | null {
+  if (!name.startsWith('fn(')) return null;
+
+  const args = [] as string[];
+  let depth = 0;
+  let start = 3;
+  for (let i = start; i < name.length; i++) {
+    const c = name[i];
+    if (c == '(') {
+      depth++;
+    } else if (c == ')' && depth > 0) {
+      depth--;
+    } else if ((c == ',' || c == ')') && depth == 0) {
+      const arg = name.substring(start, i).trim();
+      if (arg) args.push(arg);
+      start = i + 1;
+      if (c == ')') {
+        const rest = name.substring(start).trim();
+        if (!rest.startsWith('->')) return null;
+        return { args, returns: rest.substring(2).trim() };
+      }
+    }
+  }
+  return null;
+}
+
+// Splits a result type name such as `sisz!string` into the names of the type of its value and of its error
+export function split_result_type_name(name: string): { ok: string; err: string } | null {
+  // The `!` of a result returned by a function type belongs to the return type
+  if (split_fn_type_name(name)) return null;
+  const bang = name.indexOf('!');
+  if (bang == -1) return null;
+  return { ok: name.substring(0, bang), err: name.substring(bang + 1) };
+}
+
+// `ok(..)` and `err(..)` build results instead of calling a function
+export const is_result_ctor = (node: SimpNode): boolean =>
+  node.kind == AstNodeKind.FuncCall && !node.lambda && (node.name == 'ok' || node.name == 'err');
+
+export const is_pipe_placeholder = (node: SimpNode): boolean => node.kind == AstNodeKind.Ident && node.ident == '_';
 
+// Builds the call a single step of a pipe chain turns into. The piped value takes the place of the `_`
+// placeholder, which can be any argument or the base of a method call, or is passed last when there is none.
+export function pipe_into(target: AstExprNode, value: AstExprNode): FnCallNode | MethodCallNode | null {
+  const fill = (args: SimpNode[]) => {
+    const hole = args.findIndex(is_pipe_placeholder);
+    return hole == -1 ? [...args, value] : args.map((arg, i) => i == hole ? value : arg);
+  };
+
+  switch (target.kind) {
+    case AstNodeKind.Ident: return {
+      kind: AstNodeKind.FuncCall,
+      args: [value],
+      name: target.ident,
+      pos: target.pos,
+      lambda: null,
+      result: '()',
+      type_args: {},
+    };
+    case AstNodeKind.FuncDecl: return {
+      kind: AstNodeKind.FuncCall,
+      args: [value],
+      name: '',
+      pos: target.pos,
+      lambda: target,
+      result: '()',
+      type_args: {},
+    };
+    case AstNodeKind.FuncCall: return { ...target, args: fill(target.args) };
+    case AstNodeKind.MethodCall: {
+      if (is_pipe_placeholder(target.base)) return { ...target, base: value };
+      return { ...target, args: fill(target.args) };
+    }
+  }
+  return null;
+}
 
 export function pipe_node_to_list(head: PipeOpNode) {
   const list = [];
@@ -925,39 +2632,15 @@ export function pipe_node_to_fn_call_node(head: PipeOpNode) {
       continue;
     }
 
-    const val = node.val;
-    if (val.kind != AstNodeKind.FuncCall && val.kind != AstNodeKind.Ident) {
-      compiler_logger.info(get_current_line(), 'Invalid node kind in pipe chain');
+    const subcall = pipe_into(node.val, prv);
+    if (!subcall) {
+      compiler_logger.info(get_current_line(), 'Unhandled node val kind', node_debug_fmt(node.val));
       return null;
     }
-
-    if (val.kind == AstNodeKind.Ident) {
-      const subcall: FnCallNode = {
-        kind: AstNodeKind.FuncCall,
-        args: [prv],
-        name: val.ident,
-        pos: val.pos,
-      };
-      prv = subcall;
-      continue;
-    }
-
-    if (val.kind == AstNodeKind.FuncCall) {
-      const subcall: FnCallNode = {
-        kind: AstNodeKind.FuncCall,
-        args: [...val.args, prv],
-        name: val.name,
-        pos: val.pos,
-      };
-      prv = subcall;
-      continue;
-    }
-
-    compiler_logger.info(get_current_line(), 'Unhandled node val kind', node_debug_fmt(val));
-    return null;
+    prv = subcall;
   }
 
-  if (prv.kind != AstNodeKind.FuncCall) return null;
+  if (prv.kind != AstNodeKind.FuncCall && prv.kind != AstNodeKind.MethodCall) return null;
   return prv;
 }
 
@@ -982,7 +2665,7 @@ export function node_debug_fmt(node: AstNode | undefined | null): string {
 
     case AstNodeKind.Literal: return pipe(
       node.value,
-      JSON.stringify,
+      val => typeof val == 'bigint' ? val.toString() : JSON.stringify(val),
       val => `Literal{${val}, ${node.type}}`,
     );
 
@@ -998,7 +2681,13 @@ export function node_debug_fmt(node: AstNode | undefined | null): string {
 
     case AstNodeKind.FuncDecl: return pipe(
       [node.name, node.returns, node.args.map(node_debug_fmt).join(', '), node.body.map(node_debug_fmt).join(', ')] as const,
-      ([name, ret, args, body]) => `FnDecl{${name}, Return(${ret}), Args{${args}}, Body{${body}}}`,
+      ([name, ret, args, body]) => {
+        const receiver = node.receiver ? `Receiver(${node_debug_fmt(node.receiver)}), ` : '';
+        const generics = node.generics.length == 0
+          ? ''
+          : `Generics{${node.generics.map(g => g.constraint ? `${g.name}: ${g.constraint}` : g.name).join(', ')}}, `;
+        return `FnDecl{${name}, ${receiver}${generics}Return(${ret}), Args{${args}}, Body{${body}}}`;
+      },
     );
 
     case AstNodeKind.VarDecl: return pipe(
@@ -1023,6 +2712,76 @@ export function node_debug_fmt(node: AstNode | undefined | null): string {
       a => `Expr{${a}}`
     );
 
+    case AstNodeKind.While: return pipe(
+      [node_debug_fmt(node.cond), node.body.map(node_debug_fmt).join(', ')] as const,
+      ([cond, body]) => `While{${cond}, Body{${body}}}`,
+    );
+
+    case AstNodeKind.For: return pipe(
+      [node.iter.name, node_debug_fmt(node.start), node_debug_fmt(node.end), node.body.map(node_debug_fmt).join(', ')] as const,
+      ([iter, start, end, body]) => `For{${iter}, Range(${start}, ${end}), Body{${body}}}`,
+    );
+
+    case AstNodeKind.Assign: return pipe(
+      [node.op, node_debug_fmt(node.target), node.value ? node_debug_fmt(node.value) : 'void'] as const,
+      ([op, target, value]) => `Assign{'${op}', ${target}, (${value})}`,
+    );
+
+    case AstNodeKind.StructDecl: return pipe(
+      node.fields.map(f => `${f.name}: ${f.type}`).join(', '),
+      fields => `StructDecl{${node.name}, Fields{${fields}}}`,
+    );
+
+    case AstNodeKind.StructLit: return pipe(
+      node.fields.map(f => `${f.name}: ${node_debug_fmt(f.value)}`).join(', '),
+      fields => `StructLit{${node.name}, Fields{${fields}}}`,
+    );
+
+    case AstNodeKind.EnumDecl: return pipe(
+      node.values.map(v => v.value == null ? v.name : `${v.name} = ${v.value}`).join(', '),
+      values => `EnumDecl{${node.name}, Values{${values}}}`,
+    );
+
+    case AstNodeKind.UnionDecl: return pipe(
+      node.variants.map(v => v.types.length == 0 ? v.name : `${v.name}(${v.types.join(', ')})`).join(', '),
+      variants => `UnionDecl{${node.name}, Variants{${variants}}}`,
+    );
+
+    case AstNodeKind.Import: return pipe(
+      node.names ? `, Names(${node.names.map(n => n.name).join(', ')})` : '',
+      names => `Import{${JSON.stringify(node.path)}${names}}`,
+    );
+
+    case AstNodeKind.Match: return pipe(
+      node.arms.map(arm => pipe(
+        [arm.variant, arm.bindings.join(', '), arm.body.map(node_debug_fmt).join(', ')] as const,
+        ([variant, bindings, body]) => `${variant}(${bindings}) => {${body}}`,
+      )).join(', '),
+      arms => `Match{${node_debug_fmt(node.subject)}, Arms{${arms}}}`,
+    );
+
+    case AstNodeKind.MethodCall: return pipe(
+      [node_debug_fmt(node.base), node.name, node.args.map(node_debug_fmt).join(', ')] as const,
+      ([base, name, args]) => `MethodCall{${base}, '${name}', Args(${args})}`,
+    );
+
+    case AstNodeKind.UnaryOp: return `Unary{'${node.op}', ${node_debug_fmt(node.expr)}}`;
+
+    case AstNodeKind.Cast: return `Cast{${node_debug_fmt(node.expr)}, ${node.type}}`;
+
+    case AstNodeKind.Try: return `Try{${node_debug_fmt(node.expr)}}`;
+
+    case AstNodeKind.Interp: return `Interp{${node.parts.map(p => JSON.stringify(p)).join(', ')}; ${node.holes.map(node_debug_fmt).join(', ')}}`;
+
+    case AstNodeKind.ArrayLit: return `Array[${node.items.map(node_debug_fmt).join(', ')}]`;
+
+    case AstNodeKind.Index: return `Index{${node_debug_fmt(node.base)}, ${node_debug_fmt(node.index)}}`;
+
+    case AstNodeKind.FieldAccess: return pipe(
+      node_debug_fmt(node.base),
+      base => `Field{${base}, ${node.field}}`,
+    );
+
     case AstNodeKind.PipeOp: return pipe(
       node.val,
       node_debug_fmt,
@@ -1,8 +1,8 @@
 import type { Prettify, SourcePosition } from './utils';
-import { $todo, Result, get_current_line, pipe, unreachable } from './utils';
-import type { AstNode, EoFNode, FnDArgNode, FnDeclNode, KeywordNode, SimpNode, VarDeclNode } from './parser';
-import { Lex, TokenKind } from './lexer';
-import { AstNodeKind, is_cmp_operator, is_logic_operator, is_math_operator, node_debug_fmt } from './parser';
+import { Result, get_current_line, pipe, unreachable } from './utils';
+import type { AstExprNode, AstNode, ArrayLitNode, BinopNode, CastNode, EoFNode, FnCallNode, FnDArgNode, FnDeclNode, ForNode, IfElseNode, ImportNode, KeywordNode, LiteralNode, MatchNode, MethodCallNode, SimpNode, VarDeclNode } from './parser';
+import { Keywords, Lex, TokenKind } from './lexer';
+import { AstNodeKind, is_bitwise_operator, is_cmp_operator, is_logic_operator, is_math_operator, is_pipe_placeholder, node_debug_fmt, pipe_into, is_result_ctor, split_fn_type_name, split_result_type_name } from './parser';
 
 export interface TypeDef {
   origin: SourcePosition | null; // null means define by compiler
@@ -22,7 +22,7 @@ export interface VoidType extends TypeDef {
 
 export interface PrimitiveType extends TypeDef {
   kind: 'primitive';
-  base: 'si8' | 'ui8' | 'si32' | 'ui32' | 'sisz' | 'uisz' | 'ptr' | 'flt32' | 'flt64' | 'string' | 'bool' | 'null';
+  base: 'si8' | 'ui8' | 'si32' | 'ui32' | 'sisz' | 'uisz' | 'ptr' | 'flt32' | 'flt64' | 'string' | 'char' | 'bool' | 'null';
 }
 
 export interface IntType extends PrimitiveType {
@@ -40,6 +40,21 @@ export interface ArrayType extends TypeDef {
   size: number | null;
 }
 
+// Holds either a value of its base type or nothing, written `T?`
+export interface OptionalType extends TypeDef {
+  kind: 'optional';
+  origin: null;
+  base: LangType;
+}
+
+// Holds either a value or an error, written `T!E`
+export interface ResultType extends TypeDef {
+  kind: 'result';
+  origin: null;
+  ok: LangType;
+  err: LangType;
+}
+
 export interface StructType extends TypeDef {
   kind: 'struct';
   name: string;
@@ -63,7 +78,16 @@ export interface EnumType extends TypeDef {
 export interface TaggedUnionType extends TypeDef {
   kind: 'tagged-union';
   name: string;
-  values: Array<{ name: string; type: LangType }>;
+  // The values held by each variant are stored as a struct with fields named `_0`, `_1`, ...
+  values: Array<{ name: string; type: StructType }>;
+}
+
+// Type parameter of a generic function, it is replaced by the type inferred at every call
+export interface GenericType extends TypeDef {
+  kind: 'generic';
+  name: string;
+  // Number constrained type parameters can be used in math and comparisons
+  constraint: 'any' | 'number';
 }
 
 export interface LangTypesMap {
@@ -71,10 +95,13 @@ export interface LangTypesMap {
   Void: VoidType;
   Primitive: PrimitiveType;
   Array: ArrayType;
+  Optional: OptionalType;
+  Result: ResultType;
   Struct: StructType;
   Func: FuncType;
   Enum: EnumType;
   TaggedUnion: TaggedUnionType;
+  Generic: GenericType;
 }
 
 
@@ -117,6 +144,12 @@ type TypeBuilder<Kind extends LangType['kind'], Buildable extends boolean = fals
     add_value(name: string, value: number): TypeBuilder<Kind, Buildable>;
     originates(origins: FuncType['origin']): TypeBuilder<Kind, Buildable>;
   }, Buildable>
+  : Kind extends 'tagged-union'
+  ? BaseTypeBuilder<TaggedUnionType, {
+    set_name(name: string): TypeBuilder<Kind, true>;
+    add_variant(name: string, values: LangType[]): TypeBuilder<Kind, Buildable>;
+    originates(origins: FuncType['origin']): TypeBuilder<Kind, Buildable>;
+  }, Buildable>
   : never
   ;
 
@@ -126,18 +159,26 @@ type TypesContextVar = {
   loc: SourcePosition | null;
   decl: VarDeclNode | FnDeclNode | FnDArgNode | null;
   type: LangType;
+  // Set on the copy of an optional variable made by a branch where it is known to hold a value
+  narrowed?: boolean;
 };
-class TypesContext {
+export class TypesContext {
   readonly parent: TypesContext | null;
   private types: Map<string, LangType>;
   private vars: Map<string, TypesContextVar>;
   readonly input_path: string;
+  // Strict contexts reject implicit integer conversions that may lose information
+  readonly strict: boolean;
+  // Function whose body is being checked, `?` returns errors from it
+  fn: FnDeclNode | null;
   private static global_types: Map<string, LangType> = new Map();
   private static global_vars: Map<string, TypesContextVar> = new Map();
 
-  constructor(input_path: string, parent: TypesContext | null = null) {
+  constructor(input_path: string, parent: TypesContext | null = null, strict: boolean = false) {
     this.input_path = input_path;
     this.parent = parent ?? null;
+    this.strict = parent?.strict ?? strict;
+    this.fn = parent?.fn ?? null;
     this.types = new Map();
     this.vars = new Map();
   }
@@ -228,6 +269,35 @@ const NullType: PrimitiveType = {
   properties: [],
 };
 
+function optional_type(base: LangType): OptionalType {
+  return {
+    kind: 'optional',
+    origin: null,
+    base,
+    methods: [],
+    properties: [],
+  };
+}
+
+function result_type(ok: LangType, err: LangType): ResultType {
+  return {
+    kind: 'result',
+    origin: null,
+    ok, err,
+    methods: [],
+    properties: [],
+  };
+}
+
+// Results are matched on like a union of the variants `ok(T)` and `err(E)`
+function result_as_union(t: ResultType): TaggedUnionType {
+  return type_builder('tagged-union')
+    .set_name(get_type_name(t))
+    .add_variant('ok', [t.ok])
+    .add_variant('err', [t.err])
+    .build();
+}
+
 function type_builder<Kind extends LangType['kind']>(k: Kind): TypeBuilder<Kind, false> {
   const methods: TypeDef['methods'] = [];
   const properties: TypeDef['properties'] = [];
@@ -423,9 +493,9 @@ function type_builder<Kind extends LangType['kind']>(k: Kind): TypeBuilder<Kind,
         },
         add_value(name, value?: number) {
           if (typeof value !== 'number') {
-            value = ++iota;
+            value = iota++;
           } else {
-            iota = value;
+            iota = value + 1;
           }
           values.push({ name, value });
           return builder;
@@ -441,6 +511,51 @@ function type_builder<Kind extends LangType['kind']>(k: Kind): TypeBuilder<Kind,
       };
       return builder as any;
     };
+
+    case 'tagged-union': {
+      const values: TaggedUnionType['values'] = [];
+      let name = '';
+      let origin: TypeDef['origin'] = null;
+      const builder: TypeBuilder<'tagged-union', true> = {
+        add_method_alias(name, type) {
+          methods.push({ name, type });
+          return builder;
+        },
+        add_method(fn) {
+          methods.push({ name: fn.name, type: fn });
+          return builder;
+        },
+        add_property(name, type) {
+          properties.push({ name, type });
+          return builder;
+        },
+        set_name(n: string) {
+          name = n;
+          return builder;
+        },
+        originates(origins: FuncType['origin']) {
+          origin = origins;
+          return builder;
+        },
+        add_variant(variant, held) {
+          const payload = type_builder('struct')
+            .set_name(`${name}.${variant}`)
+            .originates(origin);
+          held.forEach((t, i) => payload.add_field(`_${i}`, t));
+          values.push({ name: variant, type: payload.build() });
+          return builder;
+        },
+        build() {
+          return {
+            kind: 'tagged-union',
+            methods, properties,
+            name, origin,
+            values,
+          };
+        },
+      };
+      return builder as any;
+    };
   }
 
   throw new Error(`No existing type builder for '${k}'`);
@@ -450,9 +565,12 @@ export function get_type_name(t: LangType): string {
   if (t.kind === 'any' || t.kind === 'void') return t.kind;
   if (t.kind === 'primitive') return t.base;
   if (t.kind === 'array') return get_type_name(t.base) + '[' + (t.size == null ? '' : t.size.toString(10)) + ']';
-  if (t.kind === 'enum') return 'Enum:' + t.name;
-  if (t.kind === 'struct') return 'struct ' + t.name;
-  if (t.kind === 'tagged-union') return 'TagUnion:' + t.name;
+  if (t.kind === 'optional') return get_type_name(t.base) + '?';
+  if (t.kind === 'result') return get_type_name(t.ok) + '!' + get_type_name(t.err);
+  if (t.kind === 'enum') return t.name;
+  if (t.kind === 'struct') return t.name;
+  if (t.kind === 'tagged-union') return t.name;
+  if (t.kind === 'generic') return t.name;
   if (t.kind === 'func') {
     return `fn(${t.args.map((arg) => get_type_name(arg.type)).join(', ')}) -> ${get_type_name(t.returns)}`;
   }
@@ -464,11 +582,37 @@ function get_function_returns(ctx: TypesContext, body: Array<Exclude<AstNode, Eo
   const returns: LangType[] = [];
   for (const n of body) {
     if (n.kind == 'iffi') {
-      const result = get_function_returns(ctx, n.body);
+      const { body_ctx, else_ctx } = get_if_branch_ctxs(ctx, n);
+      const result = get_function_returns(body_ctx, n.body);
       if (!result.ok) return result;
       returns.push(...result.value);
       if (n.else) {
-        const result = get_function_returns(ctx, n.else);
+        const result = get_function_returns(else_ctx, n.else);
+        if (!result.ok) return result;
+        returns.push(...result.value);
+      }
+      if (n.narrowed?.after) ctx = else_ctx;
+      continue;
+    }
+    if (n.kind == AstNodeKind.While) {
+      const result = get_function_returns(ctx.new_child_ctx(), n.body);
+      if (!result.ok) return result;
+      returns.push(...result.value);
+      continue;
+    }
+    if (n.kind == AstNodeKind.For) {
+      const loop_ctx_result = get_for_loop_ctx(ctx, n);
+      if (!loop_ctx_result.ok) return loop_ctx_result;
+      const result = get_function_returns(loop_ctx_result.value, n.body);
+      if (!result.ok) return result;
+      returns.push(...result.value);
+      continue;
+    }
+    if (n.kind == AstNodeKind.Match) {
+      const arms_result = get_match_arms_ctxs(ctx, n);
+      if (!arms_result.ok) return arms_result;
+      for (let i = 0; i < n.arms.length; ++i) {
+        const result = get_function_returns(arms_result.value.arm_ctxs[i]!, n.arms[i]!.body);
         if (!result.ok) return result;
         returns.push(...result.value);
       }
@@ -494,19 +638,47 @@ function ensure_return_type(ctx: TypesContext, t: LangType, body: Array<Exclude<
   let returns_count = 0;
   for (const n of body) {
     if (n.kind == 'iffi') {
-      errors.push(...ensure_return_type(ctx, t, n.body));
+      const { body_ctx, else_ctx } = get_if_branch_ctxs(ctx, n);
+      errors.push(...ensure_return_type(body_ctx, t, n.body));
       if (n.else) {
-        errors.push(...ensure_return_type(ctx, t, n.else));
+        errors.push(...ensure_return_type(else_ctx, t, n.else));
       }
+      if (n.narrowed?.after) ctx = else_ctx;
+      continue;
+    }
+    if (n.kind == AstNodeKind.While) {
+      errors.push(...ensure_return_type(ctx.new_child_ctx(), t, n.body));
+      continue;
+    }
+    if (n.kind == AstNodeKind.For) {
+      const loop_ctx_result = get_for_loop_ctx(ctx, n);
+      errors.push(...ensure_return_type(loop_ctx_result.ok ? loop_ctx_result.value : ctx.new_child_ctx(), t, n.body));
+      continue;
+    }
+    if (n.kind == AstNodeKind.Match) {
+      const arms_result = get_match_arms_ctxs(ctx, n);
+      n.arms.forEach((arm, i) => {
+        const arm_ctx = arms_result.ok ? arms_result.value.arm_ctxs[i]! : ctx.new_child_ctx();
+        errors.push(...ensure_return_type(arm_ctx, t, arm.body));
+      });
       continue;
     }
     if (n.kind == 'kword') {
       if (n.word != 'return') continue;
       returns_count++;
       const result = get_type(ctx, n);
-      if (result.ok) {
+      // Variables declared by the body are not known here, returns reading them are checked with the body
+      const wrapped = n.expr && result.ok ? wrap_value(ctx, n.expr, t) : Result.Ok<null, string>(null);
+      if (!wrapped.ok) {
+        errors.push(wrapped.error);
+      } else if (wrapped.value) {
+        n.expr = wrapped.value;
+      } else if (result.ok) {
         const b = result.value ?? T.null;
-        if (!types_are_equivalent(t, b)) {
+        const settled: Result<boolean, string> = n.expr ? settle_int_type(ctx, n.expr, t) : Result.Ok(false);
+        if (!settled.ok) {
+          errors.push(settled.error);
+        } else if (!settled.value && !types_are_equivalent(t, b)) {
           const exp_name = get_type_name(t);
           const got_name = get_type_name(b);
           errors.push(`Expected \`${exp_name}\` but got \`${got_name}\``);
@@ -528,11 +700,189 @@ function ensure_return_type(ctx: TypesContext, t: LangType, body: Array<Exclude<
   return errors;
 }
 
+// Type parameters constrained to numbers support math and comparisons with values of the same type
+// parameter or with integer literals
+function get_generic_operands_type(ctx: TypesContext, node: BinopNode, lhs_t: LangType, rhs_t: LangType): Result<GenericType, string> {
+  const generic = (lhs_t.kind == 'generic' ? lhs_t : rhs_t) as GenericType;
+  const [other_node, other_t] = lhs_t.kind == 'generic' ? [node.rhs, rhs_t] : [node.lhs, lhs_t];
+  if (!is_math_operator(node.op) && !is_cmp_operator(node.op)) {
+    return Result.Err(`Operator \`${node.op}\` is not supported on values of type parameter ${generic.name}`);
+  }
+  if (generic.constraint != 'number') {
+    return Result.Err(`Type parameter ${generic.name} needs the \`number\` constraint to be used with operator \`${node.op}\``);
+  }
+  if (node.op == '%') {
+    return Result.Err(`Operator \`%\` is not supported on type parameter ${generic.name} as it may hold floats`);
+  }
+  if (other_t.kind == 'generic' ? other_t.name != generic.name : get_untyped_int_deps(ctx, other_node)?.length !== 0) {
+    return Result.Err(`Values of type parameter ${generic.name} can only be mixed with integer literals but got \`${get_type_name(other_t)}\``);
+  }
+  if (other_t.kind != 'generic') settle_int_exprs(other_node, generic.name);
+  return Result.Ok(generic);
+}
+
+// Receivers are copies in go but the same object in js, so their fields can not be assigned to
+const method_receivers = new WeakSet<FnDArgNode>();
+
+// Methods can only be declared on the structs and enums of the program since go does not allow
+// declaring methods on types of other packages nor on interfaces, which unions are lowered to
+function get_receiver_type(ctx: TypesContext, node: FnDeclNode, receiver: FnDArgNode): Result<StructType | EnumType, string> {
+  const at = `${ctx.input_path}:${receiver.pos.line}:${receiver.pos.column}`;
+  if (node.generics.length > 0) return Result.Err(`${at}: Method ${node.name} can not have type parameters`);
+  const t_result = parse_type_from_str(ctx, receiver.type);
+  if (!t_result.ok) return Result.Err(`${at}: Failed to read the receiver type of method ${node.name}: ${t_result.error}`);
+  const t = t_result.value;
+  if (t.kind != 'struct' && t.kind != 'enum') {
+    return Result.Err(`${at}: Methods can only be declared on structs and enums but ${node.name} is declared on \`${get_type_name(t)}\``);
+  }
+  method_receivers.add(receiver);
+  return Result.Ok(t);
+}
+
+// Makes the type parameters of a function usable as types in its signature and body
+function declare_generics(ctx: TypesContext, node: FnDeclNode): Result<boolean, string> {
+  for (const generic of node.generics) {
+    const at = `${ctx.input_path}:${generic.pos.line}:${generic.pos.column}`;
+    const constraint = generic.constraint ?? 'any';
+    if (constraint != 'any' && constraint != 'number') {
+      return Result.Err(`${at}: Unknown constraint \`${constraint}\` on type parameter ${generic.name}, expected \`any\` or \`number\``);
+    }
+    if (ctx.get_type(generic.name)) {
+      return Result.Err(`${at}: Type parameter ${generic.name} of function ${node.name} shadows an existing type`);
+    }
+    ctx.add_type(generic.name, {
+      kind: 'generic',
+      name: generic.name,
+      constraint,
+      origin: { file: ctx.input_path, line: generic.pos.line, column: generic.pos.column },
+      methods: [],
+      properties: [],
+    });
+  }
+  return Result.Ok(true);
+}
+
+function collect_generics(t: LangType, found: GenericType[] = []): GenericType[] {
+  switch (t.kind) {
+    case 'generic': {
+      if (!found.some(g => g.name == t.name)) found.push(t);
+    } break;
+    case 'array': collect_generics(t.base, found); break;
+    case 'func': {
+      for (const arg of t.args) collect_generics(arg.type, found);
+      collect_generics(t.returns, found);
+    } break;
+  }
+  return found;
+}
+
+// Binds the type parameters found in the type of an argument to the type of the value passed to it
+function bind_generics(param_t: LangType, arg_t: LangType, bindings: Map<string, LangType>): Result<boolean, string> {
+  switch (param_t.kind) {
+    case 'generic': {
+      const bound = bindings.get(param_t.name);
+      const arg_name = get_type_name(arg_t);
+      if (bound) {
+        if (get_type_name(bound) != arg_name) {
+          return Result.Err(`Type parameter ${param_t.name} was inferred as \`${get_type_name(bound)}\` but got \`${arg_name}\``);
+        }
+        return Result.Ok(true);
+      }
+      const number_param = arg_t.kind == 'generic' && arg_t.constraint == 'number';
+      if (param_t.constraint == 'number' && !number_param && (!is_number(arg_t) || arg_t.kind == 'enum')) {
+        return Result.Err(`Type parameter ${param_t.name} only accepts numbers but got \`${arg_name}\``);
+      }
+      bindings.set(param_t.name, arg_t);
+    } break;
+    case 'array': {
+      if (arg_t.kind != 'array') return Result.Ok(false);
+      return bind_generics(param_t.base, arg_t.base, bindings);
+    };
+    case 'func': {
+      if (arg_t.kind != 'func' || arg_t.args.length != param_t.args.length) return Result.Ok(false);
+      for (let i = 0; i < param_t.args.length; ++i) {
+        const result = bind_generics(param_t.args[i]!.type, arg_t.args[i]!.type, bindings);
+        if (!result.ok) return result;
+      }
+      return bind_generics(param_t.returns, arg_t.returns, bindings);
+    };
+  }
+  return Result.Ok(true);
+}
+
+function substitute_generics(t: LangType, bindings: Map<string, LangType>): LangType {
+  switch (t.kind) {
+    case 'generic': return bindings.get(t.name) ?? t;
+    case 'array': return array_type_builder().T(substitute_generics(t.base, bindings)).sized(t.size).build();
+    case 'func': return {
+      ...t,
+      args: t.args.map(arg => ({ name: arg.name, type: substitute_generics(arg.type, bindings) })),
+      returns: substitute_generics(t.returns, bindings),
+    };
+  }
+  return t;
+}
+
+// Infers the type arguments of a call from the values passed to it, records them on the call and returns the
+// signature of the function with its type parameters replaced. Untyped integers only bind type parameters
+// that no other argument binds, like untyped constants in go.
+function instantiate_generic_call(ctx: TypesContext, fn_t: FuncType, call: FnCallNode): Result<FuncType, string> {
+  const generics = collect_generics(fn_t);
+  if (generics.length == 0) return Result.Ok(fn_t);
+  const args = call.args;
+
+  const bindings = new Map<string, LangType>();
+  const untyped = [] as number[];
+  for (let i = 0; i < args.length && i < fn_t.args.length; ++i) {
+    const param_t = fn_t.args[i]!.type;
+    if (param_t.kind == 'generic' && get_untyped_int_deps(ctx, args[i]!) != null) {
+      untyped.push(i);
+      continue;
+    }
+    const arg_result = get_type(ctx, args[i]);
+    if (!arg_result.ok) return Result.Err(arg_result.error);
+    const bind_result = bind_generics(param_t, arg_result.value, bindings);
+    if (!bind_result.ok) return Result.Err(`Argument ${i} of '${fn_t.name}': ${bind_result.error}`);
+    if (!bind_result.value) {
+      const param_name = get_type_name(param_t);
+      return Result.Err(`Argument ${i} of '${fn_t.name}' expects \`${param_name}\` but got \`${get_type_name(arg_result.value)}\``);
+    }
+  }
+  for (const i of untyped) {
+    const param_t = fn_t.args[i]!.type as GenericType;
+    if (bindings.has(param_t.name)) continue;
+    const arg_result = get_type(ctx, args[i]);
+    if (!arg_result.ok) return Result.Err(arg_result.error);
+    const bind_result = bind_generics(param_t, arg_result.value, bindings);
+    if (!bind_result.ok) return Result.Err(`Argument ${i} of '${fn_t.name}': ${bind_result.error}`);
+  }
+
+  const unbound = generics.filter(g => !bindings.has(g.name));
+  if (unbound.length > 0) {
+    return Result.Err(`Unable to infer type parameter(s) ${unbound.map(g => g.name).join(', ')} of '${fn_t.name}' from its arguments`);
+  }
+  call.type_args = Object.fromEntries([...bindings].map(([name, t]) => [name, get_type_name(t)]));
+  return Result.Ok(substitute_generics(fn_t, bindings) as FuncType);
+}
+
 function get_func_body_and_args_types(
   ctx: TypesContext,
   parsed_node: FnDeclNode
 ): Result<{ fn_ctx: TypesContext; args: FuncType['args']; returns: FuncType['returns'] }, string> {
   const fn_ctx = ctx.new_child_ctx();
+  fn_ctx.fn = parsed_node;
+  const generics_result = declare_generics(fn_ctx, parsed_node);
+  if (!generics_result.ok) return Result.Err(generics_result.error);
+  if (parsed_node.receiver) {
+    const receiver_result = get_receiver_type(fn_ctx, parsed_node, parsed_node.receiver);
+    if (!receiver_result.ok) return Result.Err(receiver_result.error);
+    fn_ctx.add_var({
+      loc: null,
+      name: parsed_node.receiver.name,
+      type: receiver_result.value,
+      decl: parsed_node.receiver,
+    });
+  }
   const args: { name: string; type: LangType }[] = [];
   for (const n of parsed_node.args) {
     if (n.type == '()') {
@@ -554,7 +904,7 @@ function get_func_body_and_args_types(
   let returns: FuncType['returns'] | null = null;
   // console.log('user defined return type as', parsed_node.returns);
   if (parsed_node.returns != '()') {
-    const parse_returns_result = parse_type_from_str(ctx, parsed_node.returns);
+    const parse_returns_result = parse_type_from_str(fn_ctx, parsed_node.returns);
     if (!parse_returns_result.ok) return parse_returns_result;
     returns = parse_returns_result.value;
     const errors = ensure_return_type(fn_ctx, returns, parsed_node.body);
@@ -566,14 +916,16 @@ function get_func_body_and_args_types(
     // TODO: IDK how we end this section without properly reading the entire function 
 
     let returned: LangType[] = [];
+    // Statements after a null guard are read in a scope of their own, see `get_ctx_after`
+    let scope = fn_ctx;
     for (const n of parsed_node.body) {
       if (n.kind == 'vardcl') {
-        const type_result = get_type(fn_ctx, n);
+        const type_result = get_type(scope, n);
         if (!type_result.ok) {
-          console.log(fn_ctx.input_path + ':' + n.pos.line + ':' + n.pos.column, '[INFO] Failed here');
+          console.log(scope.input_path + ':' + n.pos.line + ':' + n.pos.column, '[INFO] Failed here');
           return Result.Err(type_result.error);
         }
-        fn_ctx.add_var({
+        scope.add_var({
           loc: null,
           name: n.name,
           type: type_result.value,
@@ -583,20 +935,30 @@ function get_func_body_and_args_types(
       }
 
       if (n.kind == AstNodeKind.IfElse) {
-        const if_result = get_function_returns(fn_ctx, n.body);
+        const { body_ctx, else_ctx } = get_if_branch_ctxs(scope, n);
+        const if_result = get_function_returns(body_ctx, n.body);
         if (!if_result.ok) {
           return Result.Err(if_result.error);
         }
         returned.push(...if_result.value);
 
         if (n.else) {
-          const else_result = get_function_returns(fn_ctx, n.else);
+          const else_result = get_function_returns(else_ctx, n.else);
           if (!else_result.ok) {
             return Result.Err(else_result.error);
           }
           returned.push(...else_result.value);
         }
+        if (n.narrowed?.after) scope = else_ctx;
+        continue;
+      }
 
+      if (n.kind == AstNodeKind.While || n.kind == AstNodeKind.For || n.kind == AstNodeKind.Match) {
+        const block_result = get_function_returns(scope, [n]);
+        if (!block_result.ok) {
+          return Result.Err(block_result.error);
+        }
+        returned.push(...block_result.value);
         continue;
       }
       if (n.kind != 'kword') continue;
@@ -605,7 +967,7 @@ function get_func_body_and_args_types(
         returned.push(T.void);
         continue;
       }
-      const r = get_type(fn_ctx, n.expr);
+      const r = get_type(scope, n.expr);
       if (!r.ok) return Result.Err(r.error);
       returned.push(r.value);
     }
@@ -635,7 +997,214 @@ function get_func_body_and_args_types(
   return Result.Ok({ fn_ctx, args, returns });
 }
 
+// Errors are returned with the position of the part of the range they are about
+function get_for_loop_ctx(ctx: TypesContext, node: ForNode): Result<TypesContext, string> {
+  const start_result = get_type(ctx, node.start);
+  if (!start_result.ok) return Result.Err(sprint(ctx.input_path, node.start.pos, `Failed to read type of for loop range start: ${start_result.error}`));
+  const start_t = start_result.value;
+  if (!is_any_integer(start_t)) {
+    return Result.Err(sprint(ctx.input_path, node.start.pos, 'Start of for loop range must be an integer but it has type `' + get_type_name(start_t) + '`'));
+  }
+
+  const end_result = get_type(ctx, node.end);
+  if (!end_result.ok) return Result.Err(sprint(ctx.input_path, node.end.pos, `Failed to read type of for loop range end: ${end_result.error}`));
+  const end_t = end_result.value;
+  if (!is_any_integer(end_t)) {
+    return Result.Err(sprint(ctx.input_path, node.end.pos, 'End of for loop range must be an integer but it has type `' + get_type_name(end_t) + '`'));
+  }
+
+  // An untyped side of the range takes on the type of the other side: `for i in 0..len`
+  const start_untyped = get_untyped_int_deps(ctx, node.start) != null;
+  const end_untyped = get_untyped_int_deps(ctx, node.end) != null;
+  const [untyped, typed_t] = start_untyped && !end_untyped ? [node.start, end_t] : [node.end, start_t];
+  const iter_decl = get_for_iter_decl(node);
+  if (start_untyped && end_untyped) {
+    // The iterator of an untyped range is untyped as well, it is settled along with the ends of the range
+    const loop_ctx = ctx.new_child_ctx();
+    const iter_t = iter_decl.type.general == null ? ctx.get_type(iter_decl.type.name)! : typed_t;
+    if (iter_decl.type.general == null) {
+      const start_settled = settle_int_type(ctx, node.start, iter_t);
+      if (!start_settled.ok) return Result.Err(sprint(ctx.input_path, node.start.pos, start_settled.error));
+      const end_settled = settle_int_type(ctx, node.end, iter_t);
+      if (!end_settled.ok) return Result.Err(sprint(ctx.input_path, node.end.pos, end_settled.error));
+    }
+    node.iter.type = get_type_name(iter_t);
+    const iter_var: TypesContextVar & { decl: VarDeclNode } = {
+      name: node.iter.name,
+      type: iter_t,
+      decl: iter_decl,
+      loc: {
+        file: ctx.input_path,
+        line: node.iter.pos.line,
+        column: node.iter.pos.column,
+      },
+    };
+    loop_ctx.add_var(iter_var);
+    if (iter_decl.type.general == 'number') track_untyped_int(ctx, iter_var);
+    return Result.Ok(loop_ctx);
+  }
+  if (start_untyped != end_untyped) {
+    const settle_result = settle_int_type(ctx, untyped, typed_t);
+    if (!settle_result.ok) return Result.Err(sprint(ctx.input_path, untyped.pos, settle_result.error));
+  } else if (get_type_name(start_t) != get_type_name(end_t)) {
+    const start_name = get_type_name(start_t);
+    const end_name = get_type_name(end_t);
+    return Result.Err(sprint(ctx.input_path, node.end.pos, `The range of a for loop goes from \`${start_name}\` to \`${end_name}\`, both ends must have the same integer type`));
+  }
+  const iter_t = typed_t;
+  node.iter.type = get_type_name(iter_t);
+
+  const loop_ctx = ctx.new_child_ctx();
+  loop_ctx.add_var({
+    name: node.iter.name,
+    type: iter_t,
+    decl: null,
+    loc: {
+      file: ctx.input_path,
+      line: node.iter.pos.line,
+      column: node.iter.pos.column,
+    },
+  });
+  return Result.Ok(loop_ctx);
+}
+
+// Iterators are not declared by a variable declaration, one is made up for each loop so that the iterator of
+// an untyped range can be settled like untyped variables are
+const for_iter_decls = new WeakMap<ForNode, VarDeclNode>();
+function get_for_iter_decl(node: ForNode): VarDeclNode {
+  const existing = for_iter_decls.get(node);
+  if (existing) return existing;
+  const decl: VarDeclNode = {
+    kind: AstNodeKind.VarDecl,
+    pos: node.iter.pos,
+    name: node.iter.name,
+    type: { name: '()', general: 'number', infer_pos: null },
+    init: { kind: AstNodeKind.Binop, pos: node.start.pos, op: '+', lhs: node.start, rhs: node.end, type: '()' },
+    constant: false,
+  };
+  for_iter_decls.set(node, decl);
+  return decl;
+}
+
+// A branch of an if whose condition compares an optional variable to null sees the variable as the value it
+// holds when the comparison tells that it holds one
+function get_if_branch_ctxs(ctx: TypesContext, node: IfElseNode): { body_ctx: TypesContext; else_ctx: TypesContext } {
+  const body_ctx = ctx.new_child_ctx();
+  const else_ctx = ctx.new_child_ctx();
+  node.narrowed = null;
+
+  const check = get_null_check(node.cond);
+  if (!check) return { body_ctx, else_ctx };
+  const v = ctx.get_var(check.name);
+  if (!v || v.type.kind != 'optional') return { body_ctx, else_ctx };
+
+  const in_else = check.op == '==';
+  (in_else ? else_ctx : body_ctx).add_var({ ...v, type: v.type.base, narrowed: true });
+  const last = node.body.at(-1);
+  const exits = last?.kind == AstNodeKind.Keyword && (last.word == Keywords.Ret || last.word == Keywords.Break || last.word == Keywords.Continue);
+  node.narrowed = { name: check.name, in_else, after: in_else && exits && !node.else && !node.is_expr };
+  return { body_ctx, else_ctx };
+}
+
+// The statements following `if a == null { return ..; }` only run when `a` holds a value, they are checked in
+// the scope of the else branch of the if where `a` is narrowed
+function get_ctx_after(ctx: TypesContext, node: SimpNode): TypesContext {
+  if (node.kind != AstNodeKind.IfElse || !node.narrowed?.after) return ctx;
+  return get_if_branch_ctxs(ctx, node).else_ctx;
+}
+
+// Name of the variable an if condition compares to null
+function get_null_check(cond: SimpNode): { name: string; op: '==' | '!=' } | null {
+  while (cond.kind == AstNodeKind.Expr && cond.item) cond = cond.item;
+  if (cond.kind != AstNodeKind.Binop || (cond.op != '==' && cond.op != '!=')) return null;
+  const is_null_lit = (n: SimpNode) => n.kind == AstNodeKind.Literal && n.type == 'null';
+  const subject = is_null_lit(cond.rhs) ? cond.lhs : is_null_lit(cond.lhs) ? cond.rhs : null;
+  if (subject?.kind != AstNodeKind.Ident) return null;
+  return { name: subject.ident, op: cond.op };
+}
+
+function get_match_arms_ctxs(
+  ctx: TypesContext,
+  node: MatchNode,
+): Result<{ union_t: TaggedUnionType; arm_ctxs: TypesContext[]; missing: string[] }, string> {
+  const subject_result = get_type(ctx, node.subject);
+  if (!subject_result.ok) return Result.Err(`Failed to read type of matched value: ${subject_result.error}`);
+  const subject_t = subject_result.value;
+  const union_t = subject_t.kind == 'result' ? result_as_union(subject_t) : subject_t;
+  if (union_t.kind != 'tagged-union') {
+    return Result.Err('Only union values and results can be matched on but got a value of type `' + get_type_name(union_t) + '`');
+  }
+  node.union = union_t.name;
+
+  const arm_ctxs: TypesContext[] = [];
+  const handled = new Set<string>();
+  let has_wildcard = false;
+  for (const arm of node.arms) {
+    const arm_ctx = ctx.new_child_ctx();
+    arm_ctxs.push(arm_ctx);
+    if (has_wildcard) return Result.Err(`Match arm '${arm.variant}' is unreachable as it comes after the \`_\` arm`);
+    if (arm.variant == '_') {
+      if (arm.bindings.length > 0) return Result.Err('The `_` arm of a match can not bind any values');
+      has_wildcard = true;
+      continue;
+    }
+
+    const variant = union_t.values.find(v => v.name == arm.variant);
+    if (!variant) return Result.Err(`Union \`${union_t.name}\` has no variant named '${arm.variant}'`);
+    if (handled.has(arm.variant)) return Result.Err(`Variant '${arm.variant}' of union \`${union_t.name}\` is matched more than once`);
+    handled.add(arm.variant);
+
+    const held = variant.type.fields;
+    if (arm.bindings.length != held.length) {
+      return Result.Err(`Variant '${arm.variant}' of union \`${union_t.name}\` holds ${held.length} value(s) but ${arm.bindings.length} are bound`);
+    }
+    arm.bindings.forEach((name, i) => {
+      if (name == '_') return;
+      arm_ctx.add_var({
+        name,
+        type: held[i]!.type,
+        decl: null,
+        loc: {
+          file: ctx.input_path,
+          line: arm.pos.line,
+          column: arm.pos.column,
+        },
+      });
+    });
+  }
+
+  const missing = has_wildcard ? [] : union_t.values.filter(v => !handled.has(v.name)).map(v => v.name);
+  return Result.Ok({ union_t, arm_ctxs, missing });
+}
+
 function parse_type_from_str(ctx: TypesContext, str: string): Result<LangType, string> {
+  const fn_names = split_fn_type_name(str);
+  if (fn_names) {
+    const builder = fn_type_builder().set_name('');
+    for (const [idx, arg_name] of fn_names.args.entries()) {
+      const arg_result = parse_type_from_str(ctx, arg_name);
+      if (!arg_result.ok) return arg_result;
+      builder.add_arg(`_${idx}`, arg_result.value);
+    }
+    const returns_result = parse_type_from_str(ctx, fn_names.returns);
+    if (!returns_result.ok) return returns_result;
+    return Result.Ok(builder.set_return(returns_result.value).build());
+  }
+
+  const result_names = split_result_type_name(str);
+  if (result_names) {
+    const ok_result = parse_type_from_str(ctx, result_names.ok);
+    if (!ok_result.ok) return ok_result;
+    const err_result = parse_type_from_str(ctx, result_names.err);
+    if (!err_result.ok) return err_result;
+    for (const side of [ok_result.value, err_result.value]) {
+      if (side.kind == 'void' || side.kind == 'result' || is_null(side)) {
+        return Result.Err(`A result can not hold a \`${get_type_name(side)}\``);
+      }
+    }
+    return Result.Ok(result_type(ok_result.value, err_result.value));
+  }
+
   const l = Lex(str);
   let tok = l.next();
   if (tok.kind !== TokenKind.Ident) return Result.Err('Provided type has an invalid name.');
@@ -643,7 +1212,6 @@ function parse_type_from_str(ctx: TypesContext, str: string): Result<LangType, s
   const base_name = l.get_ident();
   const base_t = ctx.get_type(base_name);
   if (!base_t) {
-    console.log('[DEBUG] Registered types:', ctx.vars_list());
     return Result.Err(`No type with name '${base_name}' was found. Did you spell it right?`);
   }
 
@@ -653,12 +1221,21 @@ function parse_type_from_str(ctx: TypesContext, str: string): Result<LangType, s
     if (tok.kind == TokenKind.EOF) break;
     if (tok.kind != TokenKind.Symbol) return Result.Err(`Unexpected ${tok.kind} when reading type name.`);
 
+    if (tok.sym == '?' || tok.sym == '??') {
+      if (tok.sym == '??' || array_t.kind == 'optional') return Result.Err('An optional can not hold another optional');
+      if (array_t.kind == 'void' || array_t.kind == 'primitive' && array_t.base == 'null') {
+        return Result.Err(`\`${get_type_name(array_t)}\` can not be made optional`);
+      }
+      array_t = optional_type(array_t);
+      continue;
+    }
+
     let size: number | null = null;
     if (tok.sym != '[') return Result.Err(`Invalid symbol (${tok.sym}) in type name.`);
     tok = l.next();
     if (tok.kind != TokenKind.Symbol && tok.kind != TokenKind.Integer) return Result.Err(`Unexpected ${tok.kind} when reading type name. Expected symbol ']'`);
     if (tok.kind == TokenKind.Integer) {
-      size = tok.int;
+      size = Number(tok.int);
       tok = l.next();
       if (tok.kind != TokenKind.Symbol) return Result.Err(`Unexpected ${tok.kind} when reading type name. Expected symbol ']'`);
     }
@@ -676,6 +1253,8 @@ function types_are_equivalent(a: LangType, b: LangType): boolean {
   if (a === b) return true;
   // If one of the two are 'any' then just call it equal as 'any' is equivalent to everything
   if (a.kind == 'any' || b.kind == 'any') return true;
+  // Optionals hold nothing as null
+  if (is_null(a) && b.kind == 'optional' || is_null(b) && a.kind == 'optional') return true;
   if (a.kind != b.kind) return false;
   // Nothing more to check on these types as they hold no information
 
@@ -683,15 +1262,16 @@ function types_are_equivalent(a: LangType, b: LangType): boolean {
     case 'primitive': {
       const a_base = a.base;
       const b_base = (b as PrimitiveType).base;
-      if (a_base == 'string' || a_base == 'bool' || a_base == 'null' || a_base == 'ptr') {
+      if (a_base == 'string' || a_base == 'char' || a_base == 'bool' || a_base == 'null' || a_base == 'ptr') {
         return a_base == b_base;
       }
-      if (b_base == 'string' || b_base == 'bool' || b_base == 'null' || b_base == 'ptr') {
+      if (b_base == 'string' || b_base == 'char' || b_base == 'bool' || b_base == 'null' || b_base == 'ptr') {
         return false;
       }
 
+      // Floats of different widths are only mixed through `as`
       if (a_base == 'flt32' || a_base == 'flt64') {
-        return b_base == 'flt32' || b_base == 'flt64';
+        return a_base == b_base;
       }
       if (b_base == 'flt32' || b_base == 'flt64') {
         return false;
@@ -705,14 +1285,23 @@ function types_are_equivalent(a: LangType, b: LangType): boolean {
       const fa = a as FuncType;
       const fb = b as FuncType;
       if (fa.args.length != fb.args.length) return false;
-      if (fa.args.some((argA, idx) => !types_are_equivalent(argA.type, fb.args[idx]!.type))) return false;
-      return types_are_equivalent(fa.returns, fb.returns);
+      // Functions are passed around as values so their signatures have to match exactly, a `fn(si8)` can
+      // not stand in for a `fn(sisz)` the way an si8 value can be widened to sisz
+      const same = (x: LangType, y: LangType) => x.kind == 'any' || y.kind == 'any' || get_type_name(x) == get_type_name(y);
+      if (fa.args.some((argA, idx) => !same(argA.type, fb.args[idx]!.type))) return false;
+      return same(fa.returns, fb.returns);
     };
 
+    case 'optional': return types_are_equivalent(a.base, (b as OptionalType).base);
+
+    case 'result': return types_are_equivalent(a.ok, (b as ResultType).ok) && types_are_equivalent(a.err, (b as ResultType).err);
+
     case 'array': {
       const aa = a as ArrayType;
       const ab = b as ArrayType;
-      return aa.size === ab.size && types_are_equivalent(aa.base, ab.base);
+      // An unsized array accepts arrays of any size
+      const sizes_match = aa.size === ab.size || aa.size == null || ab.size == null;
+      return sizes_match && types_are_equivalent(aa.base, ab.base);
     };
 
     case 'struct': {
@@ -736,6 +1325,8 @@ function types_are_equivalent(a: LangType, b: LangType): boolean {
       );
     };
 
+    case 'generic': return a.name == (b as GenericType).name;
+
     case 'tagged-union': {
       const ua = a as TaggedUnionType;
       const ub = b as TaggedUnionType;
@@ -806,6 +1397,11 @@ const Flts = {
     .build(),
 } as const satisfies { [K in FltType['base']]: PrimitiveType };
 
+// Unicode scalar value, it is not a number but converts to and from integers as its code point
+const CharType = prim_type_builder()
+  .T('char')
+  .build();
+
 const StringType = prim_type_builder()
   .T('string')
   .add_property('len', Ints.uisz)
@@ -815,16 +1411,23 @@ const StringType = prim_type_builder()
       .set_return(array_type_builder().T(Ints.ui8).build())
       .build(),
   )
+  .add_method(
+    fn_type_builder()
+      .set_name('chars')
+      .set_return(array_type_builder().T(CharType).build())
+      .build(),
+  )
   .build();
 
 type Types = {
-  [Key in Exclude<keyof LangTypesMap, 'Func' | 'Struct' | 'Enum' | 'Array' | 'TaggedUnion'> as LangTypesMap[Key] extends PrimitiveType ? LangTypesMap[Key]['base'] : Lowercase<Key>]: LangTypesMap[Key];
+  [Key in Exclude<keyof LangTypesMap, 'Func' | 'Struct' | 'Enum' | 'Array' | 'Optional' | 'Result' | 'TaggedUnion' | 'Generic'> as LangTypesMap[Key] extends PrimitiveType ? LangTypesMap[Key]['base'] : Lowercase<Key>]: LangTypesMap[Key];
 };
 const T = Object.freeze({
   any: AnyType,
   void: VoidType,
   null: NullType,
   string: StringType,
+  char: CharType,
   bool: prim_type_builder()
     .T('bool')
     .build(),
@@ -851,50 +1454,750 @@ function is_any_integer(t: LangType): t is IntType | EnumType {
 }
 
 
+function is_float(t: LangType): t is FltType {
+  return t.kind === 'primitive' && (t.base === 'flt32' || t.base === 'flt64');
+}
+
+// Integer literals are untyped constants in go so only they may be used along side floats
+function mixes_int_and_flt(lhs_t: LangType, lhs_node: SimpNode, rhs_t: LangType, rhs_node: SimpNode): boolean {
+  if (is_float(lhs_t) == is_float(rhs_t)) return false;
+  const int_node = is_float(lhs_t) ? rhs_node : lhs_node;
+  return int_node.kind != AstNodeKind.Literal;
+}
+
+function mixes_flt_widths(lhs_t: LangType, rhs_t: LangType): boolean {
+  return is_float(lhs_t) && is_float(rhs_t) && lhs_t.base != rhs_t.base;
+}
+
 function is_number(t: LangType): t is IntType | FltType | EnumType {
   if (is_any_integer(t)) return true;
   return Object.values(Flts).some(flt => types_are_equivalent(t, flt));
 }
 
-export function create_global_context(input_path: string): TypesContext {
-  const ctx = new TypesContext(input_path);
+const INT_RANGES: Record<IntType['base'], [min: bigint, max: bigint]> = {
+  si8: [-(2n ** 7n), 2n ** 7n - 1n],
+  ui8: [0n, 2n ** 8n - 1n],
+  si32: [-(2n ** 31n), 2n ** 31n - 1n],
+  ui32: [0n, 2n ** 32n - 1n],
+  sisz: [-(2n ** 63n), 2n ** 63n - 1n],
+  uisz: [0n, 2n ** 64n - 1n],
+  ptr: [0n, 2n ** 64n - 1n],
+};
 
-  if (!ctx.type_exists('any')) {
-    for (const k of Object.keys(T) as Array<keyof typeof T>) {
-      const t = T[k];
-      ctx.set_global_type(k, t);
-    }
+// Variables initialized from integer literals (`let x := 5;`) have no type of their own until a usage
+// settles one, variables initialized from one another share a group so settling one settles all of them
+const untyped_int_groups = new WeakMap<VarDeclNode, Set<VarDeclNode>>();
+// Every pass over a function body declares its variables again, all of them are kept to update their types
+const untyped_int_vars = new WeakMap<VarDeclNode, TypesContextVar[]>();
+// Integer types the usages of each untyped variable ask for, the variable is settled once all of them are known
+const untyped_int_usages = new WeakMap<VarDeclNode, IntUsage[]>();
+// Untyped variables of each function, or of the module for global ones, they are settled when it is checked
+const untyped_int_owners = new WeakMap<FnDeclNode | TypesContext, Set<VarDeclNode>>();
+
+interface IntUsage {
+  t: IntType;
+  name: string;
+  file: string;
+  pos: { line: number; column: number };
+}
 
-    const printf_t = fn_type_builder()
-      .set_name('printf')
-      .add_arg('format_string', T.string)
-      .add_arg('rest', T.void)
-      .variadic({ name: 'rest', type: T.any })
-      .set_return(T.sisz)
-      .build();
-    const printnf_t: FuncType = {
-      ...printf_t,
-      name: 'printnf',
+// Returns the untyped variables an expression built from integer literals depends on, or null if the
+// expression has a type of its own
+function get_untyped_int_deps(ctx: TypesContext, node: SimpNode): VarDeclNode[] | null {
+  switch (node.kind) {
+    case AstNodeKind.Literal: return node.type == 'int' ? [] : null;
+    case AstNodeKind.Ident: {
+      const v = ctx.get_var(node.ident);
+      if (v?.decl?.kind != AstNodeKind.VarDecl || v.decl.type.general != 'number') return null;
+      return [v.decl];
+    };
+    case AstNodeKind.Expr: return node.item ? get_untyped_int_deps(ctx, node.item) : null;
+    case AstNodeKind.UnaryOp: return node.op == '!' ? null : get_untyped_int_deps(ctx, node.expr);
+    case AstNodeKind.IfElse: {
+      if (!node.is_expr) return null;
+      const value = get_untyped_int_deps(ctx, node.body[0]!);
+      const other = get_untyped_int_deps(ctx, node.else![0]!);
+      if (!value || !other) return null;
+      return value.concat(other);
+    };
+    case AstNodeKind.Binop: {
+      if (!is_math_operator(node.op) && !is_bitwise_operator(node.op)) return null;
+      const lhs = get_untyped_int_deps(ctx, node.lhs);
+      // Shifts take the type of the shifted value whatever the type of the shift count is
+      if (node.op == '<<' || node.op == '>>') return lhs;
+      const rhs = get_untyped_int_deps(ctx, node.rhs);
+      if (!lhs || !rhs) return null;
+      return lhs.concat(rhs);
     };
+  }
+  return null;
+}
 
-    const fmt_t = fn_type_builder()
-      .set_name('fmt')
-      .add_arg('format_string', T.string)
-      .add_arg('rest', T.void)
-      .variadic({ name: 'rest', type: T.any })
-      .set_return(T.string)
-      .build();
+function find_int_literal_overflow(node: SimpNode, t: IntType): LiteralNode | null {
+  switch (node.kind) {
+    case AstNodeKind.Literal: {
+      if (node.type != 'int') return null;
+      const [min, max] = INT_RANGES[t.base];
+      return node.value < min || node.value > max ? node : null;
+    };
+    case AstNodeKind.Expr: return node.item ? find_int_literal_overflow(node.item, t) : null;
+    case AstNodeKind.UnaryOp: return find_int_literal_overflow(node.expr, t);
+    case AstNodeKind.Binop: return find_int_literal_overflow(node.lhs, t) ?? find_int_literal_overflow(node.rhs, t);
+    case AstNodeKind.IfElse: {
+      if (!node.is_expr) return null;
+      return find_int_literal_overflow(node.body[0]!, t) ?? find_int_literal_overflow(node.else![0]!, t);
+    };
+  }
+  return null;
+}
 
-    ctx
-      .set_global_var({ name: printf_t.name, loc: null, type: printf_t, decl: null })
-      .set_global_var({ name: printnf_t.name, loc: null, type: printnf_t, decl: null })
-      .set_global_var({ name: fmt_t.name, loc: null, type: fmt_t, decl: null });
+// The literals, operations and expression ifs of an untyped integer expression take the type the integers are
+// settled to, go declares the type returned by expression ifs and the js target computes in the width of the type
+function settle_int_exprs(node: SimpNode, t_name: string) {
+  switch (node.kind) {
+    case AstNodeKind.Literal: if (node.type == 'int') node.int_type = t_name; break;
+    case AstNodeKind.Expr: if (node.item) settle_int_exprs(node.item, t_name); break;
+    case AstNodeKind.UnaryOp: {
+      if (node.op == '!') break;
+      node.type = t_name;
+      settle_int_exprs(node.expr, t_name);
+    } break;
+    case AstNodeKind.Binop: {
+      if (!is_math_operator(node.op) && !is_bitwise_operator(node.op)) break;
+      node.type = t_name;
+      settle_int_exprs(node.lhs, t_name);
+      if (node.op != '<<' && node.op != '>>') settle_int_exprs(node.rhs, t_name);
+    } break;
+    case AstNodeKind.IfElse: {
+      if (!node.is_expr) break;
+      node.type = t_name;
+      settle_int_exprs(node.body[0]!, t_name);
+      settle_int_exprs(node.else![0]!, t_name);
+    } break;
   }
+}
 
-  return ctx;
+const is_char = (t: LangType): boolean => t.kind == 'primitive' && t.base == 'char';
+function is_null(t: LangType): boolean {
+  return t.kind == 'primitive' && t.base == 'null';
 }
 
-function set_t_origin<T extends LangType>(ctx: TypesContext, t: T, n: Exclude<AstNode, EoFNode>) {
+// Go prints structs, unions, arrays and functions in a syntax of its own that js does not share, so only the values
+// both targets print the same way can be passed to the variadic arguments of printf, printnf and fmt
+function is_printable(t: LangType): boolean {
+  if (t.kind == 'optional') return is_printable(t.base);
+  if (t.kind == 'generic') return t.constraint == 'number';
+  return t.kind == 'enum' || t.kind == 'any' || (t.kind == 'primitive' && !is_null(t));
+}
+
+const not_printable_error = (t: LangType) =>
+  'Only strings, chars, booleans, numbers and enums can be printed but got a value of type `' + get_type_name(t) + '`';
+
+// Chars convert to and from integers as their code point and into the string holding just them
+function check_char_cast(ctx: TypesContext, node: CastNode, from: LangType, to: LangType): Result<LangType, string> {
+  if (is_char(from)) {
+    if (is_char(to) || is_any_integer(to) || (to.kind == 'primitive' && to.base == 'string')) return Result.Ok(to);
+    return Result.Err(`A \`char\` can only be cast into integers or strings but not into \`${get_type_name(to)}\``);
+  }
+  if (!is_any_integer(from)) {
+    return Result.Err(`Only integers can be cast into a \`char\` but got a value of type \`${get_type_name(from)}\``);
+  }
+
+  if (get_untyped_int_deps(ctx, node.expr)?.length == 0) {
+    // Chars are held in 32 bit signed integers like go runes
+    const settle_result = settle_int_type(ctx, node.expr, T.si32);
+    if (!settle_result.ok) return Result.Err(settle_result.error);
+    const code = node.expr.kind == AstNodeKind.Literal && node.expr.type == 'int' ? Number(node.expr.value) : null;
+    if (code != null && (code < 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff))) {
+      return Result.Err(`${code} is not the code point of a unicode scalar value`);
+    }
+  }
+  return Result.Ok(to);
+}
+
+// Expressions made of literals and constants only are constants in go, which refuses to truncate constant floats
+function is_constant_expr(ctx: TypesContext, node: SimpNode): boolean {
+  switch (node.kind) {
+    case AstNodeKind.Literal: return true;
+    case AstNodeKind.Ident: {
+      const decl = ctx.get_var(node.ident)?.decl;
+      return decl?.kind == AstNodeKind.VarDecl && decl.constant;
+    };
+    case AstNodeKind.Expr: return node.item ? is_constant_expr(ctx, node.item) : false;
+    case AstNodeKind.UnaryOp: return is_constant_expr(ctx, node.expr);
+    case AstNodeKind.Binop: return is_constant_expr(ctx, node.lhs) && is_constant_expr(ctx, node.rhs);
+  }
+  return false;
+}
+
+type ConstValue =
+  | { type: 'int'; value: bigint }
+  | { type: 'flt'; value: number }
+  | { type: 'str'; value: string }
+  | { type: 'bool'; value: boolean }
+  | { type: 'char'; value: number };
+
+// Go keeps untyped constants exact whatever their size, integers are limited to 64 bits here instead
+const CONST_INT_MIN = -(2n ** 63n);
+const CONST_INT_MAX = 2n ** 64n - 1n;
+
+function int_fits(value: bigint, t: IntType): boolean {
+  const bits = t.base.endsWith('8') ? 8 : t.base.endsWith('32') ? 32 : 64;
+  return INT_RANGES[t.base][0] < 0n ? BigInt.asIntN(bits, value) == value : BigInt.asUintN(bits, value) == value;
+}
+
+function is_scalar_value(code: number): boolean {
+  return code >= 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+}
+
+// Computes the value of a constant initialization, which may only be made of literals, other constants,
+// operators, casts and the `len` of constant strings
+function eval_const(ctx: TypesContext, node: SimpNode): Result<ConstValue, string> {
+  switch (node.kind) {
+    case AstNodeKind.Literal: {
+      if (node.type == 'int') return Result.Ok({ type: 'int', value: node.value });
+      return Result.Ok({ type: node.type, value: node.value } as ConstValue);
+    };
+
+    case AstNodeKind.Expr: {
+      if (!node.item) return Result.Err('An empty expression has no value');
+      return eval_const(ctx, node.item);
+    };
+
+    case AstNodeKind.Ident: {
+      const decl = ctx.get_var(node.ident)?.decl;
+      if (decl?.kind != AstNodeKind.VarDecl || !decl.constant || !decl.init) {
+        return Result.Err(`'${node.ident}' is not a constant so its value is only known at run time`);
+      }
+      return eval_const(ctx, decl.init);
+    };
+
+    case AstNodeKind.UnaryOp: {
+      const result = eval_const(ctx, node.expr);
+      if (!result.ok) return result;
+      const v = result.value;
+      if (node.op == '!' && v.type == 'bool') return Result.Ok({ type: 'bool', value: !v.value });
+      if (node.op == '~' && v.type == 'int') return Result.Ok({ type: 'int', value: ~v.value });
+      if (node.op == '-' && v.type == 'int') return check_const_int(-v.value);
+      if (node.op == '-' && v.type == 'flt') return Result.Ok({ type: 'flt', value: -v.value });
+      return Result.Err(`Operator '${node.op}' can not be applied to a constant ${v.type}`);
+    };
+
+    case AstNodeKind.Binop: {
+      const lhs_result = eval_const(ctx, node.lhs);
+      if (!lhs_result.ok) return lhs_result;
+      const rhs_result = eval_const(ctx, node.rhs);
+      if (!rhs_result.ok) return rhs_result;
+      return eval_const_binop(node.op, lhs_result.value, rhs_result.value);
+    };
+
+    case AstNodeKind.Cast: {
+      const result = eval_const(ctx, node.expr);
+      if (!result.ok) return result;
+      const v = result.value;
+      const to_result = parse_type_from_str(ctx, node.type);
+      if (!to_result.ok) return Result.Err(to_result.error);
+      const to = to_result.value;
+
+      if (is_char(to)) {
+        const code = v.type == 'int' ? Number(v.value) : v.type == 'char' ? v.value : null;
+        if (code == null || !is_scalar_value(code)) return Result.Err(`${v.value} is not the code point of a unicode scalar value`);
+        return Result.Ok({ type: 'char', value: code });
+      }
+      if (to.kind == 'primitive' && to.base == 'string' && v.type == 'char') {
+        return Result.Ok({ type: 'str', value: String.fromCodePoint(v.value) });
+      }
+      if (is_float(to) && (v.type == 'int' || v.type == 'flt')) return Result.Ok({ type: 'flt', value: Number(v.value) });
+      if (to.kind == 'primitive' && is_any_integer(to) && (v.type == 'int' || v.type == 'char')) {
+        const value = BigInt(v.value);
+        if (!int_fits(value, to)) return Result.Err(`Constant ${value} does not fit in \`${node.type}\``);
+        return Result.Ok({ type: 'int', value });
+      }
+      return Result.Err(`A constant ${v.type} can not be cast into \`${node.type}\` at compile time`);
+    };
+
+    case AstNodeKind.FieldAccess: {
+      if (node.property && node.field == 'len') {
+        const result = eval_const(ctx, node.base);
+        if (!result.ok) return result;
+        // Go strings are measured in bytes
+        if (result.value.type == 'str') return Result.Ok({ type: 'int', value: BigInt(Buffer.byteLength(result.value.value)) });
+      }
+      return Result.Err(`Field '${node.field}' can not be read at compile time`);
+    };
+
+    case AstNodeKind.FuncCall:
+    case AstNodeKind.MethodCall:
+    case AstNodeKind.Try:
+      return Result.Err('Function calls are only evaluated at run time');
+  }
+  return Result.Err(`${node_debug_fmt(node)} is not a constant expression`);
+}
+
+function check_const_int(value: bigint): Result<ConstValue, string> {
+  if (value < CONST_INT_MIN || value > CONST_INT_MAX) return Result.Err(`Constant ${value} overflows 64 bits`);
+  return Result.Ok({ type: 'int', value });
+}
+
+function eval_const_binop(op: BinopNode['op'], lhs: ConstValue, rhs: ConstValue): Result<ConstValue, string> {
+  const mismatch = Result.Err<ConstValue, string>(`Operator '${op}' can not be applied to a constant ${lhs.type} and a constant ${rhs.type}`);
+
+  if (is_logic_operator(op)) {
+    if (lhs.type != 'bool' || rhs.type != 'bool') return mismatch;
+    return Result.Ok({ type: 'bool', value: op == '&&' ? lhs.value && rhs.value : lhs.value || rhs.value });
+  }
+
+  // Integer literals are untyped so they mix with floats
+  const numeric = (v: ConstValue) => v.type == 'int' || v.type == 'flt';
+  if (lhs.type == 'flt' && numeric(rhs) || rhs.type == 'flt' && numeric(lhs)) {
+    const a = Number(lhs.value);
+    const b = Number(rhs.value);
+    if (is_cmp_operator(op)) return Result.Ok({ type: 'bool', value: compare(op, a, b) });
+    if (!is_math_operator(op) || op == '%') return mismatch;
+    if (op == '/' && b == 0) return Result.Err('Division by zero in constant expression');
+    const value = op == '+' ? a + b : op == '-' ? a - b : op == '*' ? a * b : a / b;
+    if (!Number.isFinite(value)) return Result.Err('Constant float overflows `flt64`');
+    return Result.Ok({ type: 'flt', value });
+  }
+
+  if (lhs.type != rhs.type) return mismatch;
+
+  if (is_cmp_operator(op)) {
+    if (lhs.type == 'bool' && op != '==' && op != '!=') return mismatch;
+    return Result.Ok({ type: 'bool', value: compare(op, lhs.value, rhs.value) });
+  }
+
+  if (lhs.type == 'str' && op == '+') return Result.Ok({ type: 'str', value: lhs.value + (rhs.value as string) });
+  if (lhs.type != 'int') return mismatch;
+
+  const a = lhs.value;
+  const b = rhs.value as bigint;
+  switch (op) {
+    case '+': return check_const_int(a + b);
+    case '-': return check_const_int(a - b);
+    case '*': return check_const_int(a * b);
+    case '/':
+    case '%': {
+      if (b == 0n) return Result.Err('Division by zero in constant expression');
+      // BigInt division truncates towards zero like go does
+      return check_const_int(op == '/' ? a / b : a % b);
+    };
+    case '&': return check_const_int(a & b);
+    case '|': return check_const_int(a | b);
+    case '^': return check_const_int(a ^ b);
+    case '<<':
+    case '>>': {
+      if (b < 0n) return Result.Err(`Negative shift count ${b} in constant expression`);
+      if (op == '>>') return check_const_int(a >> b);
+      if (a != 0n && b >= 64n) return Result.Err(`Constant ${a} << ${b} overflows 64 bits`);
+      return check_const_int(a << b);
+    };
+  }
+  return mismatch;
+}
+
+function compare<V extends number | bigint | string | boolean>(op: BinopNode['op'], a: V, b: V): boolean {
+  switch (op) {
+    case '==': return a == b;
+    case '!=': return a != b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+  return unreachable(`Operator '${op}' is not a comparison`);
+}
+
+// Evaluates the initialization of a constant once its type is known and replaces it with the value, so
+// nothing is left to compute at run time
+function fold_const(ctx: TypesContext, decl: VarDeclNode, t: LangType): Result<LangType, string> {
+  if (!decl.constant || !decl.init) return Result.Ok(t);
+  const result = eval_const(ctx, decl.init);
+  if (!result.ok) return Result.Err(`Constant ${decl.name} can not be evaluated at compile time: ${result.error}`);
+  const folded = result.value;
+
+  // Untyped integers are checked against the type their usage settles them to
+  if (folded.type == 'int' && decl.type.general == null && t.kind == 'primitive' && is_any_integer(t) && !int_fits(folded.value, t)) {
+    return Result.Err(`Constant ${decl.name} evaluates to ${folded.value} which does not fit in \`${get_type_name(t)}\``);
+  }
+
+  const pos = decl.init.pos;
+  decl.init = folded.type == 'int'
+    ? { kind: AstNodeKind.Literal, pos, type: 'int', value: folded.value, int_type: t.kind == 'primitive' && is_any_integer(t) ? get_type_name(t) : 'sisz' }
+    : { kind: AstNodeKind.Literal, pos, ...folded };
+  return Result.Ok(t);
+}
+
+// An untyped integer operand takes the integer type of the other operand, the settled type is returned
+function settle_binop_operands(ctx: TypesContext, node: BinopNode, lhs_t: LangType, rhs_t: LangType): Result<IntType | FltType | null, string> {
+  if (is_float(lhs_t) || is_float(rhs_t)) {
+    const lhs_literal = is_number_literal_expr(node.lhs);
+    if (lhs_literal == is_number_literal_expr(node.rhs)) return Result.Ok(null);
+    const [literal, typed_t] = lhs_literal ? [node.lhs, rhs_t] : [node.rhs, lhs_t];
+    if (!is_float(typed_t)) return Result.Ok(null);
+    settle_float_literals(literal, typed_t);
+    return Result.Ok(typed_t);
+  }
+
+  const lhs_untyped = get_untyped_int_deps(ctx, node.lhs) != null;
+  const rhs_untyped = get_untyped_int_deps(ctx, node.rhs) != null;
+  if (lhs_untyped == rhs_untyped) return Result.Ok(null);
+
+  const [untyped, typed_t] = lhs_untyped ? [node.lhs, rhs_t] : [node.rhs, lhs_t];
+  if (typed_t.kind != 'primitive' || !is_any_integer(typed_t)) return Result.Ok(null);
+  const result = settle_int_type(ctx, untyped, typed_t);
+  if (!result.ok) return Result.Err(result.error);
+  return Result.Ok(typed_t);
+}
+
+// Expressions made of number literals only are untyped constants in go
+function is_number_literal_expr(node: SimpNode): boolean {
+  switch (node.kind) {
+    case AstNodeKind.Literal: return node.type == 'int' || node.type == 'flt';
+    case AstNodeKind.Expr: return node.item != null && is_number_literal_expr(node.item);
+    case AstNodeKind.UnaryOp: return node.op == '-' && is_number_literal_expr(node.expr);
+    case AstNodeKind.Binop: return is_math_operator(node.op) && node.op != '%' && is_number_literal_expr(node.lhs) && is_number_literal_expr(node.rhs);
+  }
+  return false;
+}
+
+// Number literals used as a float become float literals of its type, `5 / 2` used as a float is 2.5 on both
+// targets instead of the integer division go would do before converting
+function settle_float_literals(node: SimpNode, t: FltType): boolean {
+  if (!is_number_literal_expr(node)) return false;
+  switch (node.kind) {
+    case AstNodeKind.Literal: {
+      // Integer literals hold a bigint while float ones hold a double
+      if (node.type == 'int') Object.assign(node, { type: 'flt', value: Number(node.value) });
+    } break;
+    case AstNodeKind.Expr: settle_float_literals(node.item!, t); break;
+    case AstNodeKind.UnaryOp: settle_float_literals(node.expr, t); break;
+    case AstNodeKind.Binop: {
+      settle_float_literals(node.lhs, t);
+      settle_float_literals(node.rhs, t);
+      node.type = get_type_name(t);
+    } break;
+  }
+  return true;
+}
+
+// Makes the declared variable untyped when its initialization is made of integer literals and untyped variables
+function track_untyped_int(ctx: TypesContext, v: TypesContextVar & { decl: VarDeclNode }): void {
+  const decl = v.decl;
+  if (decl.init == null) return;
+  const deps = get_untyped_int_deps(ctx, decl.init);
+  if (deps == null) return;
+
+  decl.type.general = 'number';
+  const group = untyped_int_groups.get(decl) ?? new Set([decl]);
+  for (const dep of deps) {
+    for (const member of untyped_int_groups.get(dep) ?? [dep]) group.add(member);
+  }
+  for (const member of group) untyped_int_groups.set(member, group);
+
+  // Lambdas are settled along with the function they are declared in
+  let owner_ctx = ctx;
+  while (owner_ctx.parent && (owner_ctx.parent.fn || !owner_ctx.fn)) owner_ctx = owner_ctx.parent;
+  const owner = owner_ctx.fn ?? owner_ctx;
+  const owned = untyped_int_owners.get(owner) ?? new Set();
+  owned.add(decl);
+  untyped_int_owners.set(owner, owned);
+
+  const vars = untyped_int_vars.get(decl) ?? [];
+  vars.push(v);
+  untyped_int_vars.set(decl, vars);
+}
+
+// Accepts an untyped integer expression as the integer type its usage expects, failing when one of the integer
+// literals involved does not fit in it. The variables it depends on are only settled by settle_untyped_ints
+// once every usage of them is known
+function settle_int_type(ctx: TypesContext, node: SimpNode, t: LangType): Result<boolean, string> {
+  if (is_float(t)) return Result.Ok(settle_float_literals(node, t));
+  // Integer literals are untyped constants in go so they also convert into number type parameters
+  if (t.kind == 'generic') {
+    if (t.constraint != 'number' || get_untyped_int_deps(ctx, node)?.length !== 0) return Result.Ok(false);
+    settle_int_exprs(node, t.name);
+    return Result.Ok(true);
+  }
+  if (t.kind != 'primitive' || !is_any_integer(t)) return Result.Ok(false);
+  const deps = get_untyped_int_deps(ctx, node);
+  if (deps == null) return Result.Ok(false);
+
+  const t_name = get_type_name(t);
+  const overflow = find_int_literal_overflow(node, t);
+  if (overflow) return Result.Err(`Integer literal ${overflow.value} does not fit in \`${t_name}\``);
+
+  for (const dep of deps) {
+    for (const member of untyped_int_groups.get(dep) ?? [dep]) {
+      const member_overflow = member.init && find_int_literal_overflow(member.init, t);
+      if (member_overflow) {
+        const pos = member.type.infer_pos ?? { file: ctx.input_path, ...member_overflow.pos };
+        const at = `${pos.file}:${pos.line}:${pos.column}`;
+        return Result.Err(`Integer literal ${member_overflow.value} of variable ${member.name} (${at}) does not fit in the \`${t_name}\` inferred from this usage`);
+      }
+    }
+    const usages = untyped_int_usages.get(dep) ?? [];
+    usages.push({ t, name: dep.name, file: ctx.input_path, pos: node.pos });
+    untyped_int_usages.set(dep, usages);
+  }
+  settle_int_exprs(node, t_name);
+  return Result.Ok(true);
+}
+
+// Settles the untyped variables whose usages agree on an integer type, the ones without usages are left
+// untyped unless `fallback` gives them `sisz`. Returns whether any variable was settled or the first two
+// usages of a variable asking for different types
+function settle_untyped_ints(decls: Iterable<VarDeclNode>, fallback: boolean): Result<boolean, [IntUsage, IntUsage]> {
+  let settled = false;
+  const seen = new Set<VarDeclNode>();
+  for (const decl of decls) {
+    if (decl.type.general != 'number' || seen.has(decl)) continue;
+    const group = untyped_int_groups.get(decl) ?? new Set([decl]);
+    const usages = [...group].flatMap(member => untyped_int_usages.get(member) ?? []);
+    usages.sort((a, b) => a.pos.line - b.pos.line || a.pos.column - b.pos.column);
+    for (const member of group) seen.add(member);
+    const first = usages[0] ?? null;
+    const conflict = usages.find(usage => usage.t.base != first!.t.base);
+    if (conflict) return Result.Err([first!, conflict]);
+    if (!first && !fallback) continue;
+
+    const t = first?.t ?? Ints.sisz;
+    const t_name = get_type_name(t);
+    for (const member of group) {
+      member.type.name = t_name;
+      member.type.general = null;
+      if (member.init) settle_int_exprs(member.init, t_name);
+      for (const v of untyped_int_vars.get(member) ?? []) v.type = t;
+    }
+    settled ||= first != null;
+  }
+  return Result.Ok(settled);
+}
+
+function report_int_conflict([first, second]: [IntUsage, IntUsage]) {
+  const whose = first.name == second.name ? 'it is also' : `'${first.name}' which shares its type is`;
+  eprintln(second.file, second.pos, `'${second.name}' is used as \`${get_type_name(second.t)}\` here but ${whose} used as \`${get_type_name(first.t)}\`, give it a type or cast one of them with \`as\``);
+  println(first.file, first.pos, `Used as \`${get_type_name(first.t)}\` here`);
+}
+
+// Strict contexts only convert integers implicitly into wider integers of the same signedness, the
+// conversion is made explicit in the tree since go never converts integers implicitly
+function coerce_int<N extends SimpNode>(ctx: TypesContext, node: N, from: LangType, to: LangType): Result<N | CastNode, string> {
+  if (!ctx.strict || from.kind != 'primitive' || to.kind != 'primitive') return Result.Ok(node);
+  if (!is_any_integer(from) || !is_any_integer(to) || from.base == to.base) return Result.Ok(node);
+  // Untyped integers are settled to the type of their usage instead
+  if (get_untyped_int_deps(ctx, node) != null) return Result.Ok(node);
+
+  const from_name = get_type_name(from);
+  const to_name = get_type_name(to);
+  const [from_min, from_max] = INT_RANGES[from.base];
+  const [to_min, to_max] = INT_RANGES[to.base];
+  if ((from_min < 0n) != (to_min < 0n) || from.base == 'ptr' || to.base == 'ptr') {
+    return Result.Err(`Implicit conversion from \`${from_name}\` to \`${to_name}\` is not allowed in strict mode, use \`as ${to_name}\``);
+  }
+  if (from_min < to_min || from_max > to_max) {
+    return Result.Err(`Implicit narrowing from \`${from_name}\` to \`${to_name}\` is not allowed in strict mode, use \`as ${to_name}\``);
+  }
+  return Result.Ok({ kind: AstNodeKind.Cast, pos: node.pos, expr: node as AstExprNode, type: to_name, from: from_name });
+}
+
+// A value passed where an optional of its type is expected is wrapped into the optional, which go holds as a
+// pointer to a copy of the value. Returns null when there is nothing to wrap so the usual checks apply
+function wrap_value(ctx: TypesContext, node: SimpNode, to: LangType): Result<CastNode | null, string> {
+  if (to.kind == 'result' && is_result_ctor(node)) {
+    const settle_result = settle_result_ctor(ctx, node as FnCallNode, to);
+    return settle_result.ok ? Result.Ok(null) : Result.Err(settle_result.error);
+  }
+  if (to.kind == 'array' && node.kind == AstNodeKind.ArrayLit) {
+    const settle_result = settle_array_lit(ctx, node, to);
+    return settle_result.ok ? Result.Ok(null) : Result.Err(settle_result.error);
+  }
+  if (to.kind == 'struct') {
+    const from_result = get_type(ctx, node);
+    if (!from_result.ok) return Result.Err(from_result.error);
+    return Result.Ok(types_are_equivalent(from_result.value, to) ? copy_struct(node, to) : null);
+  }
+  if (to.kind != 'optional' && to.kind != 'any') return Result.Ok(null);
+  const from_result = get_type(ctx, node);
+  if (!from_result.ok) return Result.Err(from_result.error);
+  const from = from_result.value;
+  if (to.kind == 'any') return Result.Ok(from.kind == 'optional' ? show_optional(node as AstExprNode, from) : null);
+  if (from.kind == 'optional' || (from.kind == 'primitive' && from.base == 'null')) return Result.Ok(null);
+
+  const settle_result = settle_int_type(ctx, node, to.base);
+  if (!settle_result.ok) return Result.Err(settle_result.error);
+  let expr = node as AstExprNode;
+  if (!settle_result.value) {
+    if (!types_are_equivalent(from, to.base)) return Result.Ok(null);
+    const coerced = coerce_int(ctx, expr, from, to.base);
+    if (!coerced.ok) return Result.Err(coerced.error);
+    expr = coerced.value;
+  }
+  return Result.Ok({ kind: AstNodeKind.Cast, pos: node.pos, expr, type: get_type_name(to), from: get_type_name(to.base) });
+}
+
+// Structs are values in go while js holds objects by reference, so a struct read from a variable, a field or an
+// array item is copied where it is stored or passed. The copy is a cast of the struct into its own type
+function copy_struct(node: SimpNode, t: LangType): CastNode | null {
+  if (t.kind != 'struct' || !is_place(node)) return null;
+  const name = get_type_name(t);
+  return { kind: AstNodeKind.Cast, pos: node.pos, expr: node as AstExprNode, type: name, from: name };
+}
+
+function is_place(node: SimpNode): boolean {
+  switch (node.kind) {
+    case AstNodeKind.Ident: case AstNodeKind.FieldAccess: case AstNodeKind.Index: return true;
+    case AstNodeKind.Expr: return node.item != null && is_place(node.item);
+  }
+  return false;
+}
+
+// Whether the function called is one of the builtins reading a format string
+function is_printer(ctx: TypesContext, name: string): boolean {
+  return (name == 'printf' || name == 'printnf' || name == 'fmt') && ctx.get_var(name)?.decl === null;
+}
+
+// The format string is read again when printing, so the holes of an interpolated format become `%v` verbs with
+// arguments of their own and the `%` of its text is escaped. Other arguments would have no verb left to fill
+function spread_interp_format(call: FnCallNode): Result<boolean, string> {
+  const format = call.args[0];
+  if (!format || format.kind != AstNodeKind.Interp) return Result.Ok(false);
+  if (call.args.length > 1) return Result.Err(`An interpolated format string of '${call.name}' can not be given other arguments`);
+  call.args = [
+    {
+      kind: AstNodeKind.Literal,
+      type: 'str',
+      value: format.parts.map(part => part.replaceAll('%', '%%')).join('%v'),
+      pos: format.pos,
+    },
+    ...format.holes,
+  ];
+  return Result.Ok(true);
+}
+
+// Optionals are printed as the value they hold or `null`, go would print the pointer they are held in
+function show_optional(node: AstExprNode, from: OptionalType): CastNode {
+  return { kind: AstNodeKind.Cast, pos: node.pos, expr: node, type: 'any', from: get_type_name(from) };
+}
+
+// Array literals take the type of their items from the array expected where they are used, so the items of
+// `let bytes: ui8[] = [200, 100];` are `ui8` and not integers that go would have to convert
+function settle_array_lit(ctx: TypesContext, node: ArrayLitNode, to: ArrayType): Result<boolean, string> {
+  for (let i = 0; i < node.items.length; ++i) {
+    const item = node.items[i]!;
+    const item_result = get_type(ctx, item);
+    if (!item_result.ok) return Result.Err(`Failed to read type of array item ${i}: ${item_result.error}`);
+    const wrapped = wrap_value(ctx, item, to.base);
+    if (!wrapped.ok) return Result.Err(`Array item ${i}: ${wrapped.error}`);
+    if (wrapped.value) {
+      node.items[i] = wrapped.value;
+      continue;
+    }
+    const settle_result = settle_int_type(ctx, item, to.base);
+    if (!settle_result.ok) return Result.Err(settle_result.error);
+    if (settle_result.value) continue;
+    if (!types_are_equivalent(item_result.value, to.base)) {
+      const e_t = get_type_name(to.base);
+      const g_t = get_type_name(item_result.value);
+      return Result.Err(`Array item ${i} is expected to be \`${e_t}\` but it has type \`${g_t}\``);
+    }
+    const coerced = coerce_int(ctx, item, item_result.value, to.base);
+    if (!coerced.ok) return Result.Err(`Array item ${i}: ${coerced.error}`);
+    node.items[i] = coerced.value;
+  }
+
+  node.type = get_type_name(array_type_builder().T(to.base).sized(node.items.length).build());
+  return Result.Ok(true);
+}
+
+// `ok(..)` and `err(..)` only hold one side of a result, the type of the other side is taken from the result
+// expected where they are used
+function settle_result_ctor(ctx: TypesContext, node: FnCallNode, to: ResultType): Result<boolean, string> {
+  const ctor_result = get_type(ctx, node);
+  if (!ctor_result.ok) return Result.Err(ctor_result.error);
+  const held_t = node.name == 'ok' ? to.ok : to.err;
+  const mismatch = (got: LangType) => `\`${node.name}(..)\` of \`${get_type_name(to)}\` expects \`${get_type_name(held_t)}\` but got \`${get_type_name(got)}\``;
+
+  const wrapped = wrap_value(ctx, node.args[0]!, held_t);
+  if (!wrapped.ok) return Result.Err(wrapped.error);
+  if (wrapped.value) {
+    node.args[0] = wrapped.value;
+  } else {
+    const settle_result = settle_int_type(ctx, node.args[0]!, held_t);
+    if (!settle_result.ok) return Result.Err(settle_result.error);
+    if (!settle_result.value) {
+      const held_result = get_type(ctx, node.args[0]!);
+      if (!held_result.ok) return Result.Err(held_result.error);
+      if (!types_are_equivalent(held_result.value, held_t)) return Result.Err(mismatch(held_result.value));
+      const coerced = coerce_int(ctx, node.args[0]!, held_result.value, held_t);
+      if (!coerced.ok) return Result.Err(coerced.error);
+      node.args[0] = coerced.value;
+    }
+  }
+
+  node.result = get_type_name(to);
+  return Result.Ok(true);
+}
+
+// In strict contexts the narrower operand of an integer operation is widened to the type of the other one
+function coerce_binop_operands(ctx: TypesContext, node: BinopNode, lhs_t: LangType, rhs_t: LangType): Result<IntType | null, string> {
+  if (!ctx.strict || lhs_t.kind != 'primitive' || rhs_t.kind != 'primitive') return Result.Ok(null);
+  if (!is_any_integer(lhs_t) || !is_any_integer(rhs_t) || lhs_t.base == rhs_t.base) return Result.Ok(null);
+
+  const [lhs_min, lhs_max] = INT_RANGES[lhs_t.base];
+  const [rhs_min, rhs_max] = INT_RANGES[rhs_t.base];
+  const widen_lhs = rhs_min <= lhs_min && rhs_max >= lhs_max;
+  const [from_t, to_t] = widen_lhs ? [lhs_t, rhs_t] : [rhs_t, lhs_t];
+  const result = coerce_int(ctx, widen_lhs ? node.lhs : node.rhs, from_t, to_t);
+  if (!result.ok) {
+    const lhs_name = get_type_name(lhs_t);
+    const rhs_name = get_type_name(rhs_t);
+    return Result.Err(`Operator \`${node.op}\` can not mix \`${lhs_name}\` and \`${rhs_name}\` in strict mode, cast one of them with \`as\``);
+  }
+  if (widen_lhs) node.lhs = result.value;
+  else node.rhs = result.value;
+  return Result.Ok(to_t);
+}
+
+export function create_global_context(input_path: string, strict: boolean = false): TypesContext {
+  const ctx = new TypesContext(input_path, null, strict);
+
+  if (!ctx.type_exists('any')) {
+    for (const k of Object.keys(T) as Array<keyof typeof T>) {
+      const t = T[k];
+      ctx.set_global_type(k, t);
+    }
+
+    const printf_t = fn_type_builder()
+      .set_name('printf')
+      .add_arg('format_string', T.string)
+      .add_arg('rest', T.void)
+      .variadic({ name: 'rest', type: T.any })
+      .set_return(T.sisz)
+      .build();
+    const printnf_t: FuncType = {
+      ...printf_t,
+      name: 'printnf',
+    };
+
+    const fmt_t = fn_type_builder()
+      .set_name('fmt')
+      .add_arg('format_string', T.string)
+      .add_arg('rest', T.void)
+      .variadic({ name: 'rest', type: T.any })
+      .set_return(T.string)
+      .build();
+
+    ctx
+      .set_global_var({ name: printf_t.name, loc: null, type: printf_t, decl: null })
+      .set_global_var({ name: printnf_t.name, loc: null, type: printnf_t, decl: null })
+      .set_global_var({ name: fmt_t.name, loc: null, type: fmt_t, decl: null });
+  }
+
+  return ctx;
+}
+
+function set_t_origin<T extends LangType>(ctx: TypesContext, t: T, n: Exclude<AstNode, EoFNode>) {
   return {
     ...t,
     origin: {
@@ -934,6 +2237,14 @@ export function get_type(
         })
         .build();
 
+      // Lambdas are checked where they are written, their context is a child of the enclosing one so the
+      // body can capture any variable visible at that point
+      if (parsed_node.name == '') {
+        if (parsed_node.returns == '()') parsed_node.returns = get_type_name(info.returns);
+        if (!check_fn_body(info.fn_ctx, parsed_node)) return Result.Err('Failed to type check the body of the lambda');
+        break;
+      }
+
       ctx.add_var({
         loc: {
           file: ctx.input_path,
@@ -970,6 +2281,14 @@ export function get_type(
         typed_node = set_t_origin(ctx, T.string, parsed_node);
       } else if (parsed_node.type == 'int') {
         typed_node = set_t_origin(ctx, T.sisz, parsed_node);
+      } else if (parsed_node.type == 'flt') {
+        typed_node = set_t_origin(ctx, T.flt64, parsed_node);
+      } else if (parsed_node.type == 'bool') {
+        typed_node = T.bool;
+      } else if (parsed_node.type == 'char') {
+        typed_node = T.char;
+      } else if (parsed_node.type == 'null') {
+        typed_node = T.null;
       } else {
         // @ts-expect-error Node should be inferred to be never here
         const msg = `Unhandled literal type ${parsed_node.type}`;
@@ -978,16 +2297,78 @@ export function get_type(
     } break;
 
     case AstNodeKind.FuncCall: {
-      const fn_name = parsed_node.name;
-      let ref = ctx.get_var(fn_name);
-      if (!ref) return Result.Err(`Calling an undeclared function '${fn_name}'`);
-      if (ref.type.kind != 'func') return Result.Err(`Attempting to call non-function variable '${fn_name}' as a function`);
-      typed_node = ref.type.returns;
+      if (is_result_ctor(parsed_node)) {
+        if (parsed_node.args.length != 1) {
+          return Result.Err(`\`${parsed_node.name}(..)\` takes the single value held by the result but got ${parsed_node.args.length}`);
+        }
+        const held_result = get_type(ctx, parsed_node.args[0]);
+        if (!held_result.ok) return held_result;
+        const held_t = held_result.value;
+        if (held_t.kind == 'void' || held_t.kind == 'result' || is_null(held_t)) {
+          return Result.Err(`A result can not hold a \`${get_type_name(held_t)}\``);
+        }
+        // The side not held is `any` until the result is settled by where it is used
+        if (parsed_node.result != '()') return parse_type_from_str(ctx, parsed_node.result);
+        typed_node = parsed_node.name == 'ok' ? result_type(held_t, T.any) : result_type(T.any, held_t);
+        parsed_node.result = get_type_name(typed_node);
+        break;
+      }
+
+      const fn_name = parsed_node.lambda ? 'lambda' : parsed_node.name;
+      let callee_t: LangType;
+      if (parsed_node.lambda) {
+        const lambda_result = get_type(ctx, parsed_node.lambda);
+        if (!lambda_result.ok) return lambda_result;
+        callee_t = lambda_result.value;
+      } else {
+        const ref = ctx.get_var(fn_name);
+        if (!ref) return Result.Err(`Calling an undeclared function '${fn_name}'`);
+        callee_t = ref.type;
+      }
+      if (callee_t.kind != 'func') return Result.Err(`Attempting to call non-function variable '${fn_name}' as a function`);
+      const fn_t_result = instantiate_generic_call(ctx, callee_t, parsed_node);
+      if (!fn_t_result.ok) return Result.Err(fn_t_result.error);
+      const fn_t = fn_t_result.value;
+      for (let i = 0; i < parsed_node.args.length; ++i) {
+        const expects = fn_t.variadic && i >= fn_t.args.length - 1 ? null : fn_t.args[i]?.type;
+        if (!expects) {
+          if (!fn_t.variadic) continue;
+          const arg_result = get_type(ctx, parsed_node.args[i]);
+          if (!arg_result.ok) return arg_result;
+          if (!is_printable(arg_result.value)) return Result.Err(`Argument ${i} of '${fn_name}': ${not_printable_error(arg_result.value)}`);
+          continue;
+        }
+        const wrapped = wrap_value(ctx, parsed_node.args[i]!, expects);
+        if (!wrapped.ok) return Result.Err(`Argument ${i} of '${fn_name}': ${wrapped.error}`);
+        if (wrapped.value) {
+          parsed_node.args[i] = wrapped.value;
+          continue;
+        }
+        const settle_result = settle_int_type(ctx, parsed_node.args[i]!, expects);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+        if (settle_result.value) continue;
+
+        const arg_result = get_type(ctx, parsed_node.args[i]);
+        if (!arg_result.ok) return arg_result;
+        if (!types_are_equivalent(arg_result.value, expects)) {
+          return Result.Err(`Argument ${i} of '${fn_name}' expects \`${get_type_name(expects)}\` but got \`${get_type_name(arg_result.value)}\``);
+        }
+        if (!ctx.strict) continue;
+        const coerced = coerce_int(ctx, parsed_node.args[i]!, arg_result.value, expects);
+        if (!coerced.ok) return Result.Err(`Argument ${i} of '${fn_name}': ${coerced.error}`);
+        parsed_node.args[i] = coerced.value;
+      }
+      if (!parsed_node.lambda && is_printer(ctx, fn_name)) {
+        const spread_result = spread_interp_format(parsed_node);
+        if (!spread_result.ok) return Result.Err(spread_result.error);
+      }
+      if (fn_t.returns.kind == 'result') parsed_node.result = get_type_name(fn_t.returns);
+      typed_node = fn_t.returns;
     } break;
 
     case AstNodeKind.VarDecl: {
       if (parsed_node.init) {
-        if (parsed_node.type.name != '()') {
+        if (parsed_node.type.name != '()' && parsed_node.type.general == null) {
           const var_usr_decl_type_result = parse_type_from_str(ctx, parsed_node.type.name);
           if (!var_usr_decl_type_result.ok) {
             const error = var_usr_decl_type_result.error;
@@ -1001,10 +2382,25 @@ export function get_type(
             if (error) return Result.Err(`Could not read the type of the variable initialization: ${error}`);
             return Result.Err(`Could not read the type of the variable initialization and errored with null`);
           }
-          const init_type = init_type_result.value;
+          const wrapped = wrap_value(ctx, parsed_node.init, var_usr_decl_type);
+          if (!wrapped.ok) return Result.Err(wrapped.error);
+          if (wrapped.value) parsed_node.init = wrapped.value;
+          const init_type = wrapped.value ? var_usr_decl_type : init_type_result.value;
           // if (parsed_node.init.kind == 'pop') console.log(init_type, parsed_node);
+          const settle_result = settle_int_type(ctx, parsed_node.init, var_usr_decl_type);
+          if (!settle_result.ok) return Result.Err(settle_result.error);
+          if (!settle_result.value) {
+            const coerced = coerce_int(ctx, parsed_node.init, init_type, var_usr_decl_type);
+            if (!coerced.ok) return Result.Err(coerced.error);
+            parsed_node.init = coerced.value;
+          }
 
-          if (!types_are_equivalent(init_type, var_usr_decl_type)) return Result.Err(`Incompatible type at variable initialization`);
+          if (!settle_result.value && !types_are_equivalent(init_type, var_usr_decl_type)) {
+            if (parsed_node.init.kind == AstNodeKind.ArrayLit && var_usr_decl_type.kind == 'array' && var_usr_decl_type.size != null) {
+              return Result.Err(`Array of size ${var_usr_decl_type.size} can not be initialized with ${parsed_node.init.items.length} items`);
+            }
+            return Result.Err(`Incompatible type at variable initialization`);
+          }
 
           ctx.add_var({
             loc: {
@@ -1016,7 +2412,7 @@ export function get_type(
             type: var_usr_decl_type,
             decl: parsed_node,
           });
-          return Result.Ok(var_usr_decl_type);
+          return fold_const(ctx, parsed_node, var_usr_decl_type);
         } else {
           const init_type_result = get_type(ctx, parsed_node.init);
           if (!init_type_result.ok) {
@@ -1025,7 +2421,10 @@ export function get_type(
             return Result.Err(`Could not read the type of the variable initialization and errored with null`);
           }
           const init_type = init_type_result.value;
-          ctx.add_var({
+          if (parsed_node.init.kind == AstNodeKind.ArrayLit && parsed_node.init.items.length == 0) {
+            return Result.Err('Unable to infer the type of an empty array literal, declare the type of the variable');
+          }
+          const init_var: TypesContextVar & { decl: VarDeclNode } = {
             loc: {
               file: ctx.input_path,
               line: parsed_node.pos.line,
@@ -1034,7 +2433,9 @@ export function get_type(
             name: parsed_node.name,
             type: init_type,
             decl: parsed_node,
-          });
+          };
+          ctx.add_var(init_var);
+          track_untyped_int(ctx, init_var);
           if (parsed_node.type.general == 'number') {
             if (!is_number(init_type)) {
               return Result.Err('Initialization should be a number');
@@ -1046,7 +2447,7 @@ export function get_type(
             line: parsed_node.type.infer_pos?.line ?? parsed_node.init.pos.line,
             column: parsed_node.type.infer_pos?.column ?? parsed_node.init.pos.column,
           };
-          return Result.Ok(init_type);
+          return fold_const(ctx, parsed_node, init_type);
         }
 
       } else {
@@ -1073,33 +2474,29 @@ export function get_type(
     } break;
 
     case AstNodeKind.PipeOp: {
-      let pipe = parsed_node;
-      // TODO: Check types of sequence instead of just finding the last item and returning its type
-      while (pipe.next) {
-        pipe = pipe.next;
-      }
-      switch (pipe.val.kind) {
-        case AstNodeKind.FuncCall: {
-          const t_result = get_type(ctx, pipe.val);
-          if (!t_result.ok) return Result.Err(`Failed to read type\n${t_result.error}`);
-          const t = t_result.value as FuncType;
-          typed_node = t.returns;
-          break;
-        }
-        case AstNodeKind.Ident:
-        case AstNodeKind.Expr:
-        case AstNodeKind.Literal: {
-          const t_result = get_type(ctx, pipe.val);
-          if (!t_result.ok) return Result.Err(`Failed to read type: ${t_result.error}`);
-          const t = t_result.value;
-
-          if (t.kind == 'func') return Result.Ok(t.returns);
-          typed_node = t;
-        } break;
-        default: {
-          $todo('Handle pipe expression type', pipe.val.kind);
+      // Each step is typed as the call it turns into so the piped value is checked like any other argument
+      if (parsed_node.next) {
+        const head_result = get_type(ctx, parsed_node.val);
+        if (!head_result.ok) return head_result;
+        parsed_node.val = copy_struct(parsed_node.val, head_result.value) ?? parsed_node.val;
+      }
+      let value: AstExprNode = parsed_node.val;
+      for (let step = parsed_node.next; step; step = step.next) {
+        const call = pipe_into(step.val, value);
+        if (!call) return Result.Err('Invalid pipe target ' + node_debug_fmt(step.val));
+        const call_result = get_type(ctx, call);
+        if (!call_result.ok) return Result.Err(`Failed to read type of pipe step: ${call_result.error}`);
+        // Code generation turns the chain into calls again, keep what was found about the method and the type
+        // arguments of the function, a function named alone becomes a call the value is passed to
+        if (call.kind == AstNodeKind.MethodCall && step.val.kind == AstNodeKind.MethodCall) step.val.receiver = call.receiver;
+        if (call.kind == AstNodeKind.FuncCall && step.val.kind == AstNodeKind.FuncCall) step.val.type_args = call.type_args;
+        if (call.kind == AstNodeKind.FuncCall && step.val.kind == AstNodeKind.Ident && Object.keys(call.type_args).length > 0) {
+          step.val = { ...call, args: [] };
         }
+        value = call;
+        typed_node = call_result.value;
       }
+      if (!typed_node) return get_type(ctx, parsed_node.val);
     } break;
 
     case AstNodeKind.Binop: {
@@ -1118,6 +2515,65 @@ export function get_type(
       }
       const rhs_t = rhs_t_result.value;
 
+      if (lhs_t.kind == 'generic' || rhs_t.kind == 'generic') {
+        const generic_result = get_generic_operands_type(ctx, parsed_node, lhs_t, rhs_t);
+        if (!generic_result.ok) return Result.Err(generic_result.error);
+        if (is_cmp_operator(op)) return Result.Ok(T.bool);
+        parsed_node.type = generic_result.value.name;
+        return Result.Ok(generic_result.value);
+      }
+
+      // `a + b` on strings is the operator form of `a.append(b)`
+      if (op == '+' && lhs_t.kind == 'primitive' && lhs_t.base == 'string') {
+        const append_t = T.string.methods.find(m => m.name == 'append')!.type;
+        if (!types_are_equivalent(append_t.args[0]!.type, rhs_t)) {
+          return Result.Err('Only a `string` can be appended to a string but got `' + get_type_name(rhs_t) + '`');
+        }
+        parsed_node.type = get_type_name(append_t.returns);
+        return Result.Ok(append_t.returns);
+      }
+
+      if (op == '??') {
+        if (lhs_t.kind != 'optional') {
+          return Result.Err('Left side of `??` must be an optional but it has type `' + get_type_name(lhs_t) + '`');
+        }
+        // Defaulting to another optional leaves the result optional
+        if (rhs_t.kind == 'optional' || is_null(rhs_t)) {
+          if (!types_are_equivalent(lhs_t, rhs_t)) {
+            return Result.Err('Default of `??` must be a `' + get_type_name(lhs_t.base) + '` but got `' + get_type_name(rhs_t) + '`');
+          }
+          parsed_node.type = get_type_name(lhs_t);
+          return Result.Ok(lhs_t);
+        }
+        const settle_result = settle_int_type(ctx, rhs_node, lhs_t.base);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+        if (!settle_result.value) {
+          if (!types_are_equivalent(lhs_t.base, rhs_t)) {
+            return Result.Err('Default of `??` must be a `' + get_type_name(lhs_t.base) + '` but got `' + get_type_name(rhs_t) + '`');
+          }
+          const coerced = coerce_int(ctx, rhs_node, rhs_t, lhs_t.base);
+          if (!coerced.ok) return Result.Err(coerced.error);
+          parsed_node.rhs = coerced.value;
+        }
+        parsed_node.type = get_type_name(lhs_t.base);
+        return Result.Ok(lhs_t.base);
+      }
+
+      // Optionals are compared to null to find whether they hold a value
+      if (is_cmp_operator(op) && (lhs_t.kind == 'optional' || rhs_t.kind == 'optional' || is_null(lhs_t) || is_null(rhs_t))) {
+        if (op != '==' && op != '!=') return Result.Err(`Optionals can only be compared to null with == and != but got '${op}'`);
+        if (!(lhs_t.kind == 'optional' && is_null(rhs_t)) && !(is_null(lhs_t) && rhs_t.kind == 'optional')) {
+          const lhs_name = get_type_name(lhs_t);
+          const rhs_name = get_type_name(rhs_t);
+          return Result.Err('Optionals can only be compared to null but comparing `' + lhs_name + '` to `' + rhs_name + '`');
+        }
+        return Result.Ok(T.bool);
+      }
+
+      if (is_cmp_operator(op) && (lhs_t.kind == 'result' || rhs_t.kind == 'result')) {
+        return Result.Err('Results can not be compared, match on them to read what they hold');
+      }
+
       if (is_math_operator(op)) {
         if (!is_number(lhs_t)) {
           return Result.Err('Left side of math operation is not a number but has type `' + get_type_name(lhs_t) + '`');
@@ -1125,26 +2581,60 @@ export function get_type(
         if (!is_number(rhs_t)) {
           return Result.Err('Right side of math operation is not a number but has type `' + get_type_name(rhs_t) + '`');
         }
-        if (rhs_t.kind != 'enum' && lhs_node.kind == 'idnt') {
-          const lhs_v = ctx.get_var(lhs_node.ident);
-          if (lhs_v && lhs_v.decl && lhs_v.decl.kind == 'vardcl') {
-            if (lhs_v.decl.type.general == 'number') {
-              lhs_v.decl.type.name = get_type_name(rhs_t);
-              lhs_v.decl.type.general = null;
-            }
-          }
+        if (mixes_int_and_flt(lhs_t, lhs_node, rhs_t, rhs_node)) {
+          const lhs_name = get_type_name(lhs_t);
+          const rhs_name = get_type_name(rhs_t);
+          return Result.Err('Math operations can only mix integers and floats through integer literals, but got `' + lhs_name + '` and `' + rhs_name + '`');
         }
-        if (lhs_t.kind != 'enum' && rhs_node.kind == 'idnt') {
-          const rhs_v = ctx.get_var(rhs_node.ident);
-          if (rhs_v && rhs_v.decl && rhs_v.decl.kind == 'vardcl') {
-            if (rhs_v.decl.type.general == 'number') {
-              rhs_v.decl.type.name = get_type_name(lhs_t);
-              rhs_v.decl.type.general = null;
-            }
-          }
+        if (op == '%' && (is_float(lhs_t) || is_float(rhs_t))) {
+          return Result.Err('Operator `%` is only supported on integers');
+        }
+        const settled_result = settle_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+        if (!settled_result.ok) return Result.Err(settled_result.error);
+        if (!settled_result.value && mixes_flt_widths(lhs_t, rhs_t)) {
+          return Result.Err('Math operations can not mix `' + get_type_name(lhs_t) + '` and `' + get_type_name(rhs_t) + '`, cast one side with `as`');
+        }
+        const coerced_result = settled_result.value ? settled_result : coerce_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+        if (!coerced_result.ok) return Result.Err(coerced_result.error);
+        const settled = coerced_result.value;
+
+        if (settled) {
+          typed_node = ctx.get_type(settled.base)!;
+        } else if (is_float(lhs_t) && !is_float(rhs_t)) {
+          typed_node = ctx.get_type(lhs_t.base)!;
+        } else {
+          typed_node = rhs_t.kind === 'primitive' ? ctx.get_type(rhs_t.base)! : Ints.uisz;
+        }
+        parsed_node.type = get_type_name(typed_node);
+        return Result.Ok(typed_node);
+      }
+
+      if (is_bitwise_operator(op)) {
+        if (!is_any_integer(lhs_t) || lhs_t.kind == 'enum') {
+          return Result.Err('Left side of bitwise operator `' + op + '` is not an integer but has type `' + get_type_name(lhs_t) + '`');
+        }
+        if (!is_any_integer(rhs_t) || rhs_t.kind == 'enum') {
+          return Result.Err('Right side of bitwise operator `' + op + '` is not an integer but has type `' + get_type_name(rhs_t) + '`');
+        }
+        // Shifts keep the type of the shifted value whatever the type of the shift count is
+        if (op == '<<' || op == '>>') {
+          typed_node = ctx.get_type(lhs_t.base)!;
+          parsed_node.type = get_type_name(typed_node);
+          return Result.Ok(typed_node);
         }
 
-        typed_node = rhs_t.kind === 'primitive' ? ctx.get_type(rhs_t.base)! : Ints.uisz;
+        const settled_result = settle_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+        if (!settled_result.ok) return Result.Err(settled_result.error);
+        const coerced_result = settled_result.value ? settled_result : coerce_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+        if (!coerced_result.ok) return Result.Err(coerced_result.error);
+        const settled = coerced_result.value;
+        if (!settled && lhs_t.base != rhs_t.base) {
+          const lhs_name = get_type_name(lhs_t);
+          const rhs_name = get_type_name(rhs_t);
+          return Result.Err('Bitwise operator `' + op + '` requires both sides to have the same type, but got `' + lhs_name + '` and `' + rhs_name + '`');
+        }
+        typed_node = ctx.get_type((settled ?? lhs_t).base)!;
+        parsed_node.type = get_type_name(typed_node);
         return Result.Ok(typed_node);
       }
 
@@ -1159,36 +2649,42 @@ export function get_type(
       }
 
       if (is_cmp_operator(op)) {
+        if (lhs_t.kind == 'enum' || rhs_t.kind == 'enum') {
+          if (!types_are_equivalent(lhs_t, rhs_t)) {
+            const lhs_name = get_type_name(lhs_t);
+            const rhs_name = get_type_name(rhs_t);
+            return Result.Err('Enum values can only be compared to values of the same enum, but comparing `' + lhs_name + '` to `' + rhs_name + '`');
+          }
+          return Result.Ok(T.bool);
+        }
+        if (is_char(lhs_t) && is_char(rhs_t)) {
+          return Result.Ok(T.bool);
+        }
         if (!is_number(lhs_t)) {
           const lhs_name = get_type_name(lhs_t);
           return Result.Err('Left side of comparison operator must be a number, but it has type `' + lhs_name + '`');
         }
-        if (is_any_integer(lhs_t) && !is_any_integer(rhs_t)) {
+        if (is_any_integer(lhs_t) && !is_any_integer(rhs_t) && !(is_float(rhs_t) && !mixes_int_and_flt(lhs_t, lhs_node, rhs_t, rhs_node))) {
           const rhs_name = get_type_name(rhs_t);
           return Result.Err('Right side of integer comparison is not an integer, but it has a type of `' + rhs_name + '`');
         }
+        if (is_float(lhs_t) && mixes_int_and_flt(lhs_t, lhs_node, rhs_t, rhs_node)) {
+          const rhs_name = get_type_name(rhs_t);
+          return Result.Err('Right side of float comparison is not a float, but it has a type of `' + rhs_name + '`');
+        }
         if (!is_number(rhs_t)) {
           const rhs_name = get_type_name(rhs_t);
           return Result.Err('Right side of comparison operator must be a number, but it has type `' + rhs_name + '`');
         }
 
-        if (rhs_t.kind != 'enum' && lhs_node.kind == 'idnt') {
-          const lhs_v = ctx.get_var(lhs_node.ident);
-          if (lhs_v && lhs_v.decl && lhs_v.decl.kind == 'vardcl') {
-            if (lhs_v.decl.type.general == 'number') {
-              lhs_v.decl.type.name = get_type_name(rhs_t);
-              lhs_v.decl.type.general = null;
-            }
-          }
+        const settled_result = settle_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+        if (!settled_result.ok) return Result.Err(settled_result.error);
+        if (!settled_result.value && mixes_flt_widths(lhs_t, rhs_t)) {
+          return Result.Err('Comparisons can not mix `' + get_type_name(lhs_t) + '` and `' + get_type_name(rhs_t) + '`, cast one side with `as`');
         }
-        if (lhs_t.kind != 'enum' && rhs_node.kind == 'idnt') {
-          const rhs_v = ctx.get_var(rhs_node.ident);
-          if (rhs_v && rhs_v.decl && rhs_v.decl.kind == 'vardcl') {
-            if (rhs_v.decl.type.general == 'number') {
-              rhs_v.decl.type.name = get_type_name(lhs_t);
-              rhs_v.decl.type.general = null;
-            }
-          }
+        if (!settled_result.value) {
+          const coerced_result = coerce_binop_operands(ctx, parsed_node, lhs_t, rhs_t);
+          if (!coerced_result.ok) return Result.Err(coerced_result.error);
         }
 
         return Result.Ok(T.bool);
@@ -1212,6 +2708,7 @@ export function get_type(
     case AstNodeKind.Ident: {
       const name = parsed_node.ident;
       const usr_var = ctx.get_var(name);
+      if (!usr_var && name == '_') return Result.Err('The `_` placeholder can only be used in the target of a pipe');
       if (!usr_var) {
         let error = `No variable or function found with name '${name}'`;
         // const existing_vars = ctx.vars_list();
@@ -1225,9 +2722,400 @@ export function get_type(
         // }
         return Result.Err(error);
       }
+      // A generic function only has a type once a call binds its type parameters
+      if (usr_var.decl?.kind == AstNodeKind.FuncDecl && usr_var.decl.name == name && usr_var.decl.generics.length > 0) {
+        return Result.Err(`Cannot take the value of generic function \`${name}\` without instantiating it`);
+      }
       typed_node = usr_var.type;
     } break;
 
+    case AstNodeKind.StructLit: {
+      const struct_t = ctx.get_type(parsed_node.name);
+      if (!struct_t) return Result.Err(`No type with name '${parsed_node.name}' was found. Did you spell it right?`);
+      if (struct_t.kind != 'struct') {
+        return Result.Err(`Type '${parsed_node.name}' is not a struct but \`${get_type_name(struct_t)}\``);
+      }
+
+      const initialized = new Set<string>();
+      for (const field of parsed_node.fields) {
+        const decl = struct_t.fields.find(f => f.name == field.name);
+        if (!decl) return Result.Err(`Struct \`${struct_t.name}\` has no field named '${field.name}'`);
+        if (initialized.has(field.name)) return Result.Err(`Field '${field.name}' of struct \`${struct_t.name}\` is initialized more than once`);
+        initialized.add(field.name);
+
+        const wrapped = wrap_value(ctx, field.value, decl.type);
+        if (!wrapped.ok) return Result.Err(`Field '${field.name}' of struct \`${struct_t.name}\`: ${wrapped.error}`);
+        if (wrapped.value) {
+          field.value = wrapped.value;
+          continue;
+        }
+        const value_result = get_type(ctx, field.value);
+        if (!value_result.ok) return Result.Err(`Failed to read type of field '${field.name}': ${value_result.error}`);
+        const value_t = value_result.value;
+        const settle_result = settle_int_type(ctx, field.value, decl.type);
+        if (!settle_result.ok) return Result.Err(`Field '${field.name}' of struct \`${struct_t.name}\`: ${settle_result.error}`);
+        if (settle_result.value) continue;
+
+        const coerced = coerce_int(ctx, field.value, value_t, decl.type);
+        if (!coerced.ok) return Result.Err(`Field '${field.name}' of struct \`${struct_t.name}\`: ${coerced.error}`);
+        field.value = coerced.value;
+        if (!types_are_equivalent(decl.type, value_t)) {
+          const e_t = get_type_name(decl.type);
+          const g_t = get_type_name(value_t);
+          return Result.Err(`Field '${field.name}' of struct \`${struct_t.name}\` expects \`${e_t}\` but got \`${g_t}\``);
+        }
+      }
+
+      const missing = struct_t.fields.filter(f => !initialized.has(f.name)).map(f => `'${f.name}'`);
+      if (missing.length > 0) {
+        return Result.Err(`Missing initialization of field(s) ${missing.join(', ')} of struct \`${struct_t.name}\``);
+      }
+      typed_node = struct_t;
+    } break;
+
+    case AstNodeKind.FieldAccess: {
+      const base_node = parsed_node.base;
+      if (base_node.kind == AstNodeKind.Ident && !ctx.get_var(base_node.ident)) {
+        const enum_t = ctx.get_type(base_node.ident);
+        if (enum_t && enum_t.kind == 'enum') {
+          if (!enum_t.values.some(v => v.name == parsed_node.field)) {
+            return Result.Err(`Enum \`${enum_t.name}\` has no value named '${parsed_node.field}'`);
+          }
+          typed_node = enum_t;
+          break;
+        }
+        if (enum_t && enum_t.kind == 'tagged-union') {
+          const variant = enum_t.values.find(v => v.name == parsed_node.field);
+          if (!variant) return Result.Err(`Union \`${enum_t.name}\` has no variant named '${parsed_node.field}'`);
+          if (variant.type.fields.length > 0) {
+            return Result.Err(`Variant '${variant.name}' of union \`${enum_t.name}\` holds values and must be built with \`${enum_t.name}.${variant.name}(...)\``);
+          }
+          typed_node = enum_t;
+          break;
+        }
+      }
+
+      const base_result = get_type(ctx, parsed_node.base);
+      if (!base_result.ok) return base_result;
+      const base_t = base_result.value;
+      const property = base_t.properties.find(p => p.name == parsed_node.field);
+      if (property && base_t.kind != 'struct') {
+        parsed_node.property = true;
+        parsed_node.receiver = get_type_name(base_t);
+        typed_node = property.type;
+        break;
+      }
+      if (base_t.kind != 'struct') {
+        return Result.Err(`Attempting to access field '${parsed_node.field}' of non-struct type \`${get_type_name(base_t)}\``);
+      }
+
+      const field = base_t.fields.find(f => f.name == parsed_node.field);
+      if (!field) return Result.Err(`Struct \`${base_t.name}\` has no field named '${parsed_node.field}'`);
+      typed_node = field.type;
+    } break;
+
+    case AstNodeKind.UnaryOp: {
+      const expr_result = get_type(ctx, parsed_node.expr);
+      if (!expr_result.ok) return expr_result;
+      const expr_t = expr_result.value;
+      const expr_name = get_type_name(expr_t);
+      switch (parsed_node.op) {
+        case '!': {
+          if (!types_are_equivalent(expr_t, T.bool)) {
+            return Result.Err('Operator `!` requires a `bool` but got a value of type `' + expr_name + '`');
+          }
+          typed_node = T.bool;
+        } break;
+
+        case '-': {
+          const generic_number = expr_t.kind == 'generic' && expr_t.constraint == 'number';
+          if (!generic_number && (!is_number(expr_t) || expr_t.kind == 'enum')) {
+            return Result.Err('Operator `-` requires a number but got a value of type `' + expr_name + '`');
+          }
+          typed_node = expr_t;
+          parsed_node.type = expr_name;
+        } break;
+
+        case '~': {
+          if (!is_any_integer(expr_t) || expr_t.kind == 'enum') {
+            return Result.Err('Operator `~` requires an integer but got a value of type `' + expr_name + '`');
+          }
+          typed_node = expr_t;
+          parsed_node.type = expr_name;
+        } break;
+      }
+    } break;
+
+    case AstNodeKind.Interp: {
+      for (const [i, hole] of parsed_node.holes.entries()) {
+        // Optionals are already shown when the string is checked again
+        if (hole.kind == AstNodeKind.Cast && hole.type == 'any') continue;
+        const hole_result = get_type(ctx, hole);
+        if (!hole_result.ok) return Result.Err(`Failed to read type of interpolated value: ${hole_result.error}`);
+        const hole_t = hole_result.value;
+        const shown_t = hole_t.kind == 'optional' && !is_char(hole_t.base) ? hole_t.base : hole_t;
+        // Both targets have to print the value the same way which rules out structs, arrays and the like
+        if ((shown_t.kind != 'primitive' || shown_t.base == 'null') && shown_t.kind != 'enum') {
+          return Result.Err('Only strings, chars, booleans and numbers can be interpolated but got a value of type `' + get_type_name(hole_t) + '`');
+        }
+        if (hole_t.kind == 'optional') {
+          parsed_node.holes[i] = show_optional(hole, hole_t);
+          continue;
+        }
+        // Both targets would print the code point, a char is shown as the character itself
+        if (is_char(hole_t)) {
+          parsed_node.holes[i] = { kind: AstNodeKind.Cast, pos: hole.pos, expr: hole, type: 'string', from: 'char' };
+        }
+      }
+      typed_node = T.string;
+    } break;
+
+    case AstNodeKind.Cast: {
+      const expr_result = get_type(ctx, parsed_node.expr);
+      if (!expr_result.ok) return expr_result;
+      const expr_t = expr_result.value;
+      const expr_name = get_type_name(expr_t);
+      const target_result = parse_type_from_str(ctx, parsed_node.type);
+      if (!target_result.ok) return Result.Err(`Failed to read the type of cast: ${target_result.error}`);
+      const target_t = target_result.value;
+
+      if ((target_t.kind == 'any' && expr_t.kind == 'optional') || (target_t.kind == 'struct' && types_are_equivalent(expr_t, target_t))) {
+        parsed_node.from = expr_name;
+        typed_node = target_t;
+        break;
+      }
+
+      // Casting into an optional wraps the value
+      if (target_t.kind == 'optional') {
+        const settle_result = settle_int_type(ctx, parsed_node.expr, target_t.base);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+        if (!settle_result.value && !types_are_equivalent(expr_t, target_t.base)) {
+          return Result.Err(`Only a \`${get_type_name(target_t.base)}\` can be cast into \`${parsed_node.type}\` but got \`${expr_name}\``);
+        }
+        parsed_node.from = get_type_name(target_t.base);
+        typed_node = target_t;
+        break;
+      }
+
+      if (is_char(expr_t) || is_char(target_t)) {
+        const char_result = check_char_cast(ctx, parsed_node, expr_t, target_t);
+        if (!char_result.ok) return char_result;
+        parsed_node.from = expr_name;
+        typed_node = target_t;
+        break;
+      }
+
+      if (!is_number(expr_t)) return Result.Err(`Only numbers can be cast but got a value of type \`${expr_name}\``);
+      if (target_t.kind != 'primitive' || !is_number(target_t)) {
+        return Result.Err(`Values can only be cast into numeric types but got \`${get_type_name(target_t)}\``);
+      }
+
+      // Constants are converted at compile time so they have to fit in the target type
+      const deps = get_untyped_int_deps(ctx, parsed_node.expr);
+      let settled = false;
+      if (deps?.length == 0) {
+        const settle_result = settle_int_type(ctx, parsed_node.expr, target_t);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+        settled = settle_result.value;
+      }
+      if (is_float(expr_t) && is_any_integer(target_t) && is_constant_expr(ctx, parsed_node.expr)) {
+        return Result.Err(`Constant floats can not be cast into \`${get_type_name(target_t)}\`, write an integer literal instead`);
+      }
+
+      parsed_node.from = settled ? get_type_name(target_t) : expr_name;
+      typed_node = target_t;
+    } break;
+
+    case AstNodeKind.ArrayLit: {
+      if (parsed_node.items.length == 0) {
+        // Empty literals take their type from where they are used, they hold `any` until then
+        if (parsed_node.type == '()') parsed_node.type = get_type_name(array_type_builder().T(T.any).sized(0).build());
+        return parse_type_from_str(ctx, parsed_node.type);
+      }
+
+      let item_t: LangType | null = null;
+      for (let i = 0; i < parsed_node.items.length; ++i) {
+        const item_result = get_type(ctx, parsed_node.items[i]!);
+        if (!item_result.ok) return Result.Err(`Failed to read type of array item ${i}: ${item_result.error}`);
+        if (!item_t) {
+          item_t = item_result.value;
+          continue;
+        }
+        if (!types_are_equivalent(item_t, item_result.value)) {
+          const e_t = get_type_name(item_t);
+          const g_t = get_type_name(item_result.value);
+          return Result.Err(`Array item ${i} has type \`${g_t}\` but the first item has type \`${e_t}\``);
+        }
+      }
+
+      // Literals settled by the array they are used as keep the item type of that array
+      if (parsed_node.type != '()') return parse_type_from_str(ctx, parsed_node.type);
+      const array_t = array_type_builder().T(item_t!).sized(parsed_node.items.length).build();
+      parsed_node.type = get_type_name(array_t);
+      typed_node = array_t;
+    } break;
+
+    case AstNodeKind.Index: {
+      const base_result = get_type(ctx, parsed_node.base);
+      if (!base_result.ok) return base_result;
+      const base_t = base_result.value;
+      if (base_t.kind != 'array') {
+        return Result.Err(`Attempting to index into non-array type \`${get_type_name(base_t)}\``);
+      }
+
+      const index_result = get_type(ctx, parsed_node.index);
+      if (!index_result.ok) return Result.Err(`Failed to read type of index: ${index_result.error}`);
+      if (!is_any_integer(index_result.value)) {
+        return Result.Err('Arrays can only be indexed with integers but the index has type `' + get_type_name(index_result.value) + '`');
+      }
+      typed_node = base_t.base;
+    } break;
+
+    case AstNodeKind.MethodCall: {
+      const base_node = parsed_node.base;
+      const union_t = base_node.kind == AstNodeKind.Ident && !ctx.get_var(base_node.ident)
+        ? ctx.get_type(base_node.ident)
+        : undefined;
+      if (!union_t || union_t.kind != 'tagged-union') {
+        const base_result = get_type(ctx, base_node);
+        if (!base_result.ok) return base_result;
+        const base_t = base_result.value;
+        const base_name = get_type_name(base_t);
+        const method = base_t.methods.find(m => m.name == parsed_node.name);
+        if (!method) return Result.Err(`Type \`${base_name}\` has no method named '${parsed_node.name}'`);
+
+        const method_t = method.type;
+        if (parsed_node.args.length != method_t.args.length) {
+          return Result.Err(`Method '${parsed_node.name}' of \`${base_name}\` expects ${method_t.args.length} argument(s) but got ${parsed_node.args.length}`);
+        }
+        for (let i = 0; i < method_t.args.length; ++i) {
+          const expects = method_t.args[i]!.type;
+          const arg_result = get_type(ctx, parsed_node.args[i]!);
+          if (!arg_result.ok) return arg_result;
+          const wrapped = wrap_value(ctx, parsed_node.args[i]!, expects);
+          if (!wrapped.ok) return Result.Err(`Argument ${i} of method '${parsed_node.name}': ${wrapped.error}`);
+          if (wrapped.value) {
+            parsed_node.args[i] = wrapped.value;
+            continue;
+          }
+          const settle_result = settle_int_type(ctx, parsed_node.args[i]!, expects);
+          if (!settle_result.ok) return Result.Err(settle_result.error);
+          if (settle_result.value) continue;
+
+          const coerced = coerce_int(ctx, parsed_node.args[i]!, arg_result.value, expects);
+          if (!coerced.ok) return Result.Err(`Argument ${i} of method '${parsed_node.name}': ${coerced.error}`);
+          parsed_node.args[i] = coerced.value;
+          if (!types_are_equivalent(expects, arg_result.value)) {
+            const e_t = get_type_name(expects);
+            const g_t = get_type_name(arg_result.value);
+            return Result.Err(`Argument ${i} of method '${parsed_node.name}' expects \`${e_t}\` but got \`${g_t}\``);
+          }
+        }
+        parsed_node.receiver = base_name;
+        if (method_t.returns.kind == 'result') parsed_node.result = get_type_name(method_t.returns);
+        typed_node = method_t.returns;
+        break;
+      }
+
+      const variant = union_t.values.find(v => v.name == parsed_node.name);
+      if (!variant) return Result.Err(`Union \`${union_t.name}\` has no variant named '${parsed_node.name}'`);
+      const held = variant.type.fields;
+      if (parsed_node.args.length != held.length) {
+        return Result.Err(`Variant '${variant.name}' of union \`${union_t.name}\` holds ${held.length} value(s) but got ${parsed_node.args.length}`);
+      }
+      for (let i = 0; i < held.length; ++i) {
+        const expects = held[i]!.type;
+        const arg_result = get_type(ctx, parsed_node.args[i]!);
+        if (!arg_result.ok) return arg_result;
+        const wrapped = wrap_value(ctx, parsed_node.args[i]!, expects);
+        if (!wrapped.ok) return Result.Err(`Value ${i} of variant '${variant.name}' of union \`${union_t.name}\`: ${wrapped.error}`);
+        if (wrapped.value) {
+          parsed_node.args[i] = wrapped.value;
+          continue;
+        }
+        const settle_result = settle_int_type(ctx, parsed_node.args[i]!, expects);
+        if (!settle_result.ok) return Result.Err(`Value ${i} of variant '${variant.name}' of union \`${union_t.name}\`: ${settle_result.error}`);
+        if (settle_result.value) continue;
+
+        const coerced = coerce_int(ctx, parsed_node.args[i]!, arg_result.value, expects);
+        if (!coerced.ok) return Result.Err(`Value ${i} of variant '${variant.name}' of union \`${union_t.name}\`: ${coerced.error}`);
+        parsed_node.args[i] = coerced.value;
+        if (!types_are_equivalent(expects, arg_result.value)) {
+          const e_t = get_type_name(held[i]!.type);
+          const g_t = get_type_name(arg_result.value);
+          return Result.Err(`Value ${i} of variant '${variant.name}' of union \`${union_t.name}\` expects \`${e_t}\` but got \`${g_t}\``);
+        }
+      }
+      typed_node = union_t;
+    } break;
+
+    case AstNodeKind.Match: {
+      const arms_result = get_match_arms_ctxs(ctx, parsed_node);
+      if (!arms_result.ok) return arms_result;
+      const { union_t, arm_ctxs, missing } = arms_result.value;
+      if (missing.length > 0) {
+        return Result.Err(`Non-exhaustive match on \`${union_t.name}\`, missing variant(s) ${missing.map(v => `'${v}'`).join(', ')}`);
+      }
+      if (!parsed_node.is_expr) return Result.Ok(T.void);
+
+      let match_t: LangType | null = null;
+      for (let i = 0; i < parsed_node.arms.length; ++i) {
+        const arm = parsed_node.arms[i]!;
+        const arm_result = get_type(arm_ctxs[i]!, arm.body[0]!);
+        if (!arm_result.ok) return arm_result;
+        if (!match_t) {
+          match_t = arm_result.value;
+          continue;
+        }
+        if (!types_are_equivalent(match_t, arm_result.value)) {
+          const e_t = get_type_name(match_t);
+          const g_t = get_type_name(arm_result.value);
+          return Result.Err(`Match arm '${arm.variant}' evaluates to \`${g_t}\` but the first arm evaluates to \`${e_t}\``);
+        }
+      }
+      if (!match_t) return Result.Err('A match expression must have at least one arm');
+      parsed_node.type = get_type_name(match_t);
+      typed_node = match_t;
+    } break;
+
+    case AstNodeKind.IfElse: {
+      if (!parsed_node.is_expr) return Result.Ok(T.void);
+      const cond_result = get_type(ctx, parsed_node.cond);
+      if (!cond_result.ok) return cond_result;
+      if (!types_are_equivalent(cond_result.value, T.bool)) {
+        return Result.Err(`If condition must evaluate to a \`bool\` type but it is currently of type \`${get_type_name(cond_result.value)}\``);
+      }
+
+      const { body_ctx, else_ctx } = get_if_branch_ctxs(ctx, parsed_node);
+      const value = parsed_node.body[0]!;
+      const other = parsed_node.else![0]!;
+      const value_result = get_type(body_ctx, value);
+      if (!value_result.ok) return value_result;
+      const other_result = get_type(else_ctx, other);
+      if (!other_result.ok) return other_result;
+
+      // An untyped integer in one branch takes the type of the other branch, when both are untyped the if stays
+      // untyped until its usage settles it
+      const value_untyped = get_untyped_int_deps(body_ctx, value) != null;
+      const other_untyped = get_untyped_int_deps(else_ctx, other) != null;
+      let if_t = value_result.value;
+      if (value_untyped && !other_untyped) {
+        const settle_result = settle_int_type(body_ctx, value, other_result.value);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+        if (settle_result.value) if_t = other_result.value;
+      } else if (other_untyped && !value_untyped) {
+        const settle_result = settle_int_type(else_ctx, other, if_t);
+        if (!settle_result.ok) return Result.Err(settle_result.error);
+      }
+      if (!types_are_equivalent(if_t, other_result.value)) {
+        const e_t = get_type_name(if_t);
+        const g_t = get_type_name(other_result.value);
+        return Result.Err(`The else branch evaluates to \`${g_t}\` but the if branch evaluates to \`${e_t}\``);
+      }
+      parsed_node.type = get_type_name(if_t);
+      typed_node = if_t;
+    } break;
+
     case AstNodeKind.Expr: {
       if (!parsed_node.item) return Result.Ok(T.void);
       const result = get_type(ctx, parsed_node.item);
@@ -1235,6 +3123,29 @@ export function get_type(
       typed_node = result.value;
     } break;
 
+    case AstNodeKind.Try: {
+      const expr_result = get_type(ctx, parsed_node.expr);
+      if (!expr_result.ok) return expr_result;
+      const expr_t = expr_result.value;
+      if (expr_t.kind != 'result') {
+        return Result.Err(`\`?\` can only be used on results but got a value of type \`${get_type_name(expr_t)}\``);
+      }
+
+      const fn = ctx.fn;
+      const returns_result = fn && fn.returns != '()' ? parse_type_from_str(ctx, fn.returns) : null;
+      if (!fn || !returns_result?.ok || returns_result.value.kind != 'result') {
+        return Result.Err('`?` returns errors from the enclosing function so it must declare a result as its return type');
+      }
+      // Go asserts the type of the error when it is matched on so it is passed along as is
+      const returns = returns_result.value;
+      if (get_type_name(returns.err) != get_type_name(expr_t.err)) {
+        const err_name = get_type_name(expr_t.err);
+        return Result.Err(`\`?\` can not return an error of type \`${err_name}\` from a function returning \`${get_type_name(returns)}\``);
+      }
+      fn.propagates = true;
+      typed_node = expr_t.ok;
+    } break;
+
     default: {
       throw new Error(`Unhandled parse node kind attempting to get type: ${parsed_node.kind}`);
     };
@@ -1258,7 +3169,7 @@ const println = (file_path: string, pos: { line: number; column: number; }, ...d
 
 function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<LangType, string> {
   if (parsed_node.init) {
-    if (parsed_node.type.name != '()') {
+    if (parsed_node.type.name != '()' && parsed_node.type.general == null) {
       const var_usr_decl_type_result = parse_type_from_str(ctx, parsed_node.type.name);
       if (!var_usr_decl_type_result.ok) {
         const error = var_usr_decl_type_result.error;
@@ -1272,10 +3183,25 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
         if (error) return Result.Err(`Could not read the type of the variable initialization: ${error}`);
         return Result.Err(`Could not read the type of the variable initialization and errored with null`);
       }
-      const init_type = init_type_result.value;
+      const wrapped = wrap_value(ctx, parsed_node.init, var_usr_decl_type);
+      if (!wrapped.ok) return Result.Err(wrapped.error);
+      if (wrapped.value) parsed_node.init = wrapped.value;
+      const init_type = wrapped.value ? var_usr_decl_type : init_type_result.value;
       // if (parsed_node.init.kind == 'pop') console.log(init_type, parsed_node);
+      const settle_result = settle_int_type(ctx, parsed_node.init, var_usr_decl_type);
+      if (!settle_result.ok) return Result.Err(settle_result.error);
+      if (!settle_result.value) {
+        const coerced = coerce_int(ctx, parsed_node.init, init_type, var_usr_decl_type);
+        if (!coerced.ok) return Result.Err(coerced.error);
+        parsed_node.init = coerced.value;
+      }
 
-      if (!types_are_equivalent(init_type, var_usr_decl_type)) return Result.Err(`Incompatible type at variable initialization`);
+      if (!settle_result.value && !types_are_equivalent(init_type, var_usr_decl_type)) {
+        if (parsed_node.init.kind == AstNodeKind.ArrayLit && var_usr_decl_type.kind == 'array' && var_usr_decl_type.size != null) {
+          return Result.Err(`Array of size ${var_usr_decl_type.size} can not be initialized with ${parsed_node.init.items.length} items`);
+        }
+        return Result.Err(`Incompatible type at variable initialization`);
+      }
 
       ctx.add_var({
         loc: {
@@ -1288,7 +3214,7 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
         decl: parsed_node,
       });
 
-      return Result.Ok(var_usr_decl_type);
+      return fold_const(ctx, parsed_node, var_usr_decl_type);
     }
 
     const init_type_result = get_type(ctx, parsed_node.init);
@@ -1299,7 +3225,10 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
     }
 
     const init_type = init_type_result.value;
-    ctx.add_var({
+    if (parsed_node.init.kind == AstNodeKind.ArrayLit && parsed_node.init.items.length == 0) {
+      return Result.Err('Unable to infer the type of an empty array literal, declare the type of the variable');
+    }
+    const init_var: TypesContextVar & { decl: VarDeclNode } = {
       loc: {
         file: ctx.input_path,
         line: parsed_node.pos.line,
@@ -1308,7 +3237,9 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
       name: parsed_node.name,
       type: init_type,
       decl: parsed_node,
-    });
+    };
+    ctx.add_var(init_var);
+    track_untyped_int(ctx, init_var);
     if (parsed_node.type.general == 'number') {
       if (!is_number(init_type)) {
         return Result.Err('Initialization should be a number');
@@ -1321,7 +3252,7 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
       line: parsed_node.type.infer_pos?.line ?? parsed_node.init.pos.line,
       column: parsed_node.type.infer_pos?.column ?? parsed_node.init.pos.column,
     };
-    return Result.Ok(init_type);
+    return fold_const(ctx, parsed_node, init_type);
 
   }
 
@@ -1351,25 +3282,48 @@ function register_variable(ctx: TypesContext, parsed_node: VarDeclNode): Result<
 }
 
 
-function find_returns(ctx: TypesContext, body: SimpNode[], found: Array<KeywordNode> = []): Result<typeof found, string> {
+function find_returns(ctx: TypesContext, body: SimpNode[], found: Array<{ node: KeywordNode; ctx: TypesContext }> = []): Result<typeof found, string> {
   for (const n of body) {
     if (n.kind == AstNodeKind.VarDecl) {
       const result = register_variable(ctx, n);
-      if (!result.ok) return result;
+      if (!result.ok) return Result.Err(sprint(ctx.input_path, n.pos, result.error));
       continue;
     }
 
     if (n.kind == AstNodeKind.IfElse) {
-      const result = find_returns(ctx.new_child_ctx(), n.body, found);
+      const { body_ctx, else_ctx } = get_if_branch_ctxs(ctx, n);
+      const result = find_returns(body_ctx, n.body, found);
       if (!result.ok) return result;
       if (n.else) {
-        const result = find_returns(ctx.new_child_ctx(), n.else, found);
+        const result = find_returns(else_ctx, n.else, found);
+        if (!result.ok) return result;
+      }
+      if (n.narrowed?.after) ctx = else_ctx;
+      continue;
+    }
+    if (n.kind == AstNodeKind.While) {
+      const result = find_returns(ctx.new_child_ctx(), n.body, found);
+      if (!result.ok) return result;
+      continue;
+    }
+    if (n.kind == AstNodeKind.For) {
+      const loop_ctx_result = get_for_loop_ctx(ctx, n);
+      if (!loop_ctx_result.ok) return loop_ctx_result;
+      const result = find_returns(loop_ctx_result.value, n.body, found);
+      if (!result.ok) return result;
+      continue;
+    }
+    if (n.kind == AstNodeKind.Match) {
+      const arms_result = get_match_arms_ctxs(ctx, n);
+      if (!arms_result.ok) return arms_result;
+      for (let i = 0; i < n.arms.length; ++i) {
+        const result = find_returns(arms_result.value.arm_ctxs[i]!, n.arms[i]!.body, found);
         if (!result.ok) return result;
       }
       continue;
     }
     if (n.kind == AstNodeKind.Keyword && n.word == 'return') {
-      found.push(n);
+      found.push({ node: n, ctx });
       continue;
     }
   }
@@ -1409,6 +3363,16 @@ export function check_types(
         return true;
       }
 
+      // Constants are typed and folded in one place
+      if (node.constant) {
+        const result = get_type(ctx, node);
+        if (!result.ok) {
+          eprintln(ctx.input_path, node.pos, result.error);
+          return false;
+        }
+        return true;
+      }
+
       const usr_type_name = node.type.name;
       if (!node.init) {
         const type_result = parse_type_from_str(ctx, usr_type_name);
@@ -1436,8 +3400,8 @@ export function check_types(
           eprintln(ctx.input_path, node.pos, error);
           return false;
         }
-        if (usr_type_name == '()') {
-          ctx.add_var({
+        if (usr_type_name == '()' || node.type.general == 'number') {
+          const init_var: TypesContextVar & { decl: VarDeclNode } = {
             name: node.name,
             type: init_t_result.value,
             decl: node,
@@ -1446,7 +3410,10 @@ export function check_types(
               line: node.pos.line,
               column: node.pos.column,
             },
-          });
+          };
+          node.init = copy_struct(node.init, init_var.type) ?? node.init;
+          ctx.add_var(init_var);
+          track_untyped_int(ctx, init_var);
           return true;
         }
         const init_t = init_t_result.value;
@@ -1477,7 +3444,26 @@ export function check_types(
         }
 
         const var_t = type_result.value;
-        if (!types_are_equivalent(var_t, init_t)) {
+        const wrapped = wrap_value(ctx, node.init, var_t);
+        if (!wrapped.ok) {
+          eprintln(ctx.input_path, node.init.pos, wrapped.error);
+          return false;
+        }
+        if (wrapped.value) node.init = wrapped.value;
+        const settle_result = settle_int_type(ctx, node.init, var_t);
+        if (!settle_result.ok) {
+          eprintln(ctx.input_path, node.init.pos, settle_result.error);
+          return false;
+        }
+        if (!settle_result.value) {
+          const coerced = coerce_int(ctx, node.init, init_t, var_t);
+          if (!coerced.ok) {
+            eprintln(ctx.input_path, node.init.pos, coerced.error);
+            return false;
+          }
+          node.init = coerced.value;
+        }
+        if (!wrapped.value && !settle_result.value && !types_are_equivalent(var_t, init_t)) {
           const init_t_name = get_type_name(init_t);
           const var_t_name = get_type_name(var_t);
           eprintln(ctx.input_path, node.pos, `Initialization value \`${init_t_name}\` does not match provided type \`${var_t_name}\``);
@@ -1498,55 +3484,308 @@ export function check_types(
       }
     };
 
-    case AstNodeKind.Keyword: {
-      const fn = (parent as FnDeclNode);
-      const returns_result = parse_type_from_str(ctx, fn.returns);
-      if (!returns_result.ok) unreachable('Parsing function return should be safe: ' + String(returns_result.error));
-      const returns = returns_result.value;
-      if (node.expr == null && returns.kind == 'void') return true;
-      if (!node.expr) {
-        const returns_name = get_type_name(returns);
-        eprintln(ctx.input_path, node.pos, `Expected return of '${returns_name}' but are returning 'void'`);
+    case AstNodeKind.Keyword: {
+      if (node.word == Keywords.Break || node.word == Keywords.Continue) return true;
+      if (node.word == Keywords.Defer) {
+        const call = node.expr!;
+        if (!ctx.fn) {
+          eprintln(ctx.input_path, node.pos, 'Cannot use `defer` outside of a function');
+          return false;
+        }
+        if ((call.kind != AstNodeKind.FuncCall && call.kind != AstNodeKind.MethodCall) || is_result_ctor(call)) {
+          eprintln(ctx.input_path, call.pos, 'Only calls to functions and methods can be deferred');
+          return false;
+        }
+        if (!check_types(ctx, call, parent)) return false;
+        // Builtin string methods and union variants are not calls once generated
+        if (call.kind == AstNodeKind.MethodCall && (call.receiver == '()' || call.receiver == 'string')) {
+          eprintln(ctx.input_path, call.pos, `\`${call.name}\` is not a method call that can be deferred`);
+          return false;
+        }
+        ctx.fn.defers = true;
+        return true;
+      }
+      const fn = (parent as FnDeclNode);
+      const returns_result = parse_type_from_str(ctx, fn.returns);
+      if (!returns_result.ok) unreachable('Parsing function return should be safe: ' + String(returns_result.error));
+      const returns = returns_result.value;
+      if (node.expr == null && returns.kind == 'void') return true;
+      if (!node.expr) {
+        const returns_name = get_type_name(returns);
+        eprintln(ctx.input_path, node.pos, `Expected return of '${returns_name}' but are returning 'void'`);
+        return false;
+      }
+
+      const returning_result = get_type(ctx, node.expr);
+      if (!returning_result.ok) {
+        const error = returning_result.error;
+        eprintln(ctx.input_path, node.expr.pos, `Type is unreadable by type checker: ${error}`);
+        return false;
+      }
+
+      const wrapped = wrap_value(ctx, node.expr, returns);
+      if (!wrapped.ok) {
+        eprintln(ctx.input_path, node.expr.pos, wrapped.error);
+        return false;
+      }
+      if (wrapped.value) {
+        node.expr = wrapped.value;
+        return true;
+      }
+
+      const returning = returning_result.value;
+      const settle_result = settle_int_type(ctx, node.expr, returns);
+      if (!settle_result.ok) {
+        eprintln(ctx.input_path, node.expr.pos, settle_result.error);
+        return false;
+      }
+      if (!settle_result.value) {
+        const coerced = coerce_int(ctx, node.expr, returning, returns);
+        if (!coerced.ok) {
+          eprintln(ctx.input_path, node.expr.pos, coerced.error);
+          return false;
+        }
+        node.expr = coerced.value;
+      }
+      if (!settle_result.value && !types_are_equivalent(returning, returns)) {
+        const returns_name = get_type_name(returns);
+        const returning_name = get_type_name(returning);
+        eprintln(ctx.input_path, node.expr.pos, `Expected return of '${returns_name}' but are returning '${returning_name}'`);
+        return false;
+      }
+
+      return true;
+    };
+
+    case AstNodeKind.IfElse: {
+      const cond_t_result = get_type(ctx, node.cond);
+      if (!cond_t_result.ok) {
+        eprintln(ctx.input_path, node.cond.pos, cond_t_result.error ?? 'Failed to evaluate type of if condition');
+        return false;
+      }
+      const cond_t = cond_t_result.value;
+      if (!types_are_equivalent(cond_t, T.bool)) {
+        const cond_t_name = '`' + get_type_name(cond_t) + '`';
+        eprintln(ctx.input_path, node.cond.pos, 'If condition must evaluate to a `bool` type but it is currently of type', cond_t_name);
+        return false;
+      }
+
+      const { body_ctx, else_ctx } = get_if_branch_ctxs(ctx, node);
+      return check_block(body_ctx, node.body, parent) && check_block(else_ctx, node.else ?? [], parent);
+    };
+
+    case AstNodeKind.While: {
+      const cond_t_result = get_type(ctx, node.cond);
+      if (!cond_t_result.ok) {
+        eprintln(ctx.input_path, node.cond.pos, cond_t_result.error ?? 'Failed to evaluate type of while condition');
+        return false;
+      }
+      const cond_t = cond_t_result.value;
+      if (!types_are_equivalent(cond_t, T.bool)) {
+        const cond_t_name = '`' + get_type_name(cond_t) + '`';
+        eprintln(ctx.input_path, node.cond.pos, 'While condition must evaluate to a `bool` type but it is currently of type', cond_t_name);
+        return false;
+      }
+
+      return check_block(ctx.new_child_ctx(), node.body, parent);
+    };
+
+    case AstNodeKind.For: {
+      const loop_ctx_result = get_for_loop_ctx(ctx, node);
+      if (!loop_ctx_result.ok) {
+        console.error(loop_ctx_result.error);
+        return false;
+      }
+
+      return check_block(loop_ctx_result.value, node.body, parent);
+    };
+
+    case AstNodeKind.Match: {
+      const arms_result = get_match_arms_ctxs(ctx, node);
+      if (!arms_result.ok) {
+        eprintln(ctx.input_path, node.pos, arms_result.error);
+        return false;
+      }
+
+      const { union_t, arm_ctxs, missing } = arms_result.value;
+      if (missing.length > 0) {
+        eprintln(ctx.input_path, node.pos, `Non-exhaustive match on \`${union_t.name}\`, missing variant(s)`, missing.map(v => `'${v}'`).join(', '));
+        if (union_t.origin) println(union_t.origin.file, union_t.origin, `Union ${union_t.name} declared here`);
+        return false;
+      }
+
+      if (node.is_expr) {
+        const match_result = get_type(ctx, node);
+        if (!match_result.ok) {
+          eprintln(ctx.input_path, node.pos, match_result.error);
+          return false;
+        }
+        Ref.value = match_result.value;
+        return true;
+      }
+
+      return node.arms.every((arm, i) => check_block(arm_ctxs[i]!, arm.body, parent));
+    };
+
+    case AstNodeKind.MethodCall:
+    case AstNodeKind.Try: {
+      const call_result = get_type(ctx, node);
+      if (!call_result.ok) {
+        eprintln(ctx.input_path, node.pos, call_result.error);
+        return false;
+      }
+      Ref.value = call_result.value;
+      return true;
+    };
+
+    case AstNodeKind.Import: {
+      // Imports are resolved before type checking, see `register_import`
+      if (ctx.parent) {
+        eprintln(ctx.input_path, node.pos, 'Modules can only be imported at the top level of a file');
+        return false;
+      }
+      return true;
+    };
+
+    case AstNodeKind.UnionDecl: {
+      const union_t = ctx.get_type(node.name);
+      if (!union_t || union_t.kind != 'tagged-union') {
+        eprintln(ctx.input_path, node.pos, `Union ${node.name} was not registered before type checking`);
         return false;
       }
+      Ref.value = union_t;
+      return true;
+    };
 
-      const returning_result = get_type(ctx, node.expr);
-      if (!returning_result.ok) {
-        const error = returning_result.error;
-        eprintln(ctx.input_path, node.expr.pos, `Type is unreadable by type checker: ${error}`);
+    case AstNodeKind.StructDecl: {
+      const struct_t = ctx.get_type(node.name);
+      if (!struct_t || struct_t.kind != 'struct') {
+        eprintln(ctx.input_path, node.pos, `Struct ${node.name} was not registered before type checking`);
         return false;
       }
+      Ref.value = struct_t;
+      return true;
+    };
 
-      const returning = returning_result.value;
-      if (!types_are_equivalent(returning, returns)) {
-        const returns_name = get_type_name(returns);
-        const returning_name = get_type_name(returning);
-        eprintln(ctx.input_path, node.expr.pos, `Expected return of '${returns_name}' but are returning '${returning_name}'`);
+    case AstNodeKind.EnumDecl: {
+      const enum_t = ctx.get_type(node.name);
+      if (!enum_t || enum_t.kind != 'enum') {
+        eprintln(ctx.input_path, node.pos, `Enum ${node.name} was not registered before type checking`);
         return false;
       }
-
+      Ref.value = enum_t;
       return true;
     };
 
-    case AstNodeKind.IfElse: {
-      const cond_t_result = get_type(ctx, node.cond);
-      if (!cond_t_result.ok) {
-        eprintln(ctx.input_path, node.cond.pos, cond_t_result.error ?? 'Failed to evaluate type of if condition');
+    case AstNodeKind.Assign: {
+      let name = '';
+      let root: SimpNode = node.target;
+      while (root.kind == AstNodeKind.FieldAccess || root.kind == AstNodeKind.Index) {
+        name = (root.kind == AstNodeKind.FieldAccess ? '.' + root.field : '[]') + name;
+        root = root.base;
+      }
+      if (root.kind != AstNodeKind.Ident) {
+        eprintln(ctx.input_path, node.target.pos, 'Cannot assign to a field of a temporary value');
         return false;
       }
-      const cond_t = cond_t_result.value;
-      if (!types_are_equivalent(cond_t, T.bool)) {
-        const cond_t_name = '`' + get_type_name(cond_t) + '`';
-        eprintln(ctx.input_path, node.cond.pos, 'If condition must evaluate to a `bool` type but it is currently of type', cond_t_name);
+      name = root.ident + name;
+
+      const target = ctx.get_var(root.ident);
+      if (!target) {
+        eprintln(ctx.input_path, root.pos, `Attempting to assign to undeclared variable '${root.ident}'`);
+        return false;
+      }
+      if (node.target.kind != AstNodeKind.Ident && target.decl?.kind == AstNodeKind.FuncDclArg && method_receivers.has(target.decl)) {
+        eprintln(ctx.input_path, node.target.pos, `Cannot assign to '${name}' as methods receive a copy of '${root.ident}'`);
+        return false;
+      }
+      if (target.type.kind == 'func' && target.decl?.kind == AstNodeKind.FuncDecl && target.decl.name == root.ident) {
+        eprintln(ctx.input_path, root.pos, `Cannot assign to function '${root.ident}'`);
+        if (target.loc) println(ctx.input_path, target.loc, 'Function declared here');
+        return false;
+      }
+      if (target.narrowed) {
+        eprintln(ctx.input_path, root.pos, `Cannot assign to '${name}' where the null check on '${root.ident}' narrows it to \`${get_type_name(target.type)}\``);
+        return false;
+      }
+      if (target.decl?.kind == AstNodeKind.VarDecl && target.decl.constant) {
+        eprintln(ctx.input_path, root.pos, `Cannot assign to '${name}' as '${root.ident}' is a constant`);
+        if (target.loc) println(ctx.input_path, target.loc, 'Constant declared here');
+        return false;
+      }
+
+      let target_t = target.type;
+      if (node.target.kind != AstNodeKind.Ident) {
+        const field_t_result = get_type(ctx, node.target);
+        if (!field_t_result.ok) {
+          eprintln(ctx.input_path, node.target.pos, field_t_result.error);
+          return false;
+        }
+        target_t = field_t_result.value;
+      }
+      if (node.target.kind == AstNodeKind.FieldAccess && node.target.property) {
+        eprintln(ctx.input_path, node.target.pos, `Cannot assign to '${name}' as it is a builtin property`);
+        return false;
+      }
+      const target_t_name = get_type_name(target_t);
+      if (node.op != '=' && !is_number(target_t)) {
+        eprintln(ctx.input_path, node.pos, `Operator '${node.op}' requires a number but '${name}' has type \`${target_t_name}\``);
         return false;
       }
+      if (node.op != '=') node.type = target_t_name;
+      if (node.op == '++' || node.op == '--') {
+        Ref.value = target_t;
+        return true;
+      }
 
-      for (const n of node.body) {
-        if (!check_types(ctx.new_child_ctx(), n, parent)) return false;
+      const value_t_result = get_type(ctx, node.value);
+      if (!value_t_result.ok) {
+        eprintln(ctx.input_path, node.pos, value_t_result.error ?? 'Failed to evaluate type of assigned value');
+        return false;
+      }
+      const wrapped = wrap_value(ctx, node.value!, target_t);
+      if (!wrapped.ok) {
+        eprintln(ctx.input_path, node.value!.pos, wrapped.error);
+        return false;
+      }
+      if (wrapped.value) {
+        node.value = wrapped.value;
+        Ref.value = target_t;
+        return true;
       }
-      for (const n of node.else ?? []) {
-        if (!check_types(ctx.new_child_ctx(), n, parent)) return false;
+      const value_t = value_t_result.value;
+      const value_t_name = get_type_name(value_t);
+      // Only the increment and decrement operators have no value, an untyped side takes the type of the other side
+      const target_untyped = get_untyped_int_deps(ctx, node.target) != null;
+      const settle_result = !target_untyped
+        ? settle_int_type(ctx, node.value!, target_t)
+        : get_untyped_int_deps(ctx, node.value!) == null
+          ? settle_int_type(ctx, node.target, value_t)
+          : Result.Ok(false);
+      if (!settle_result.ok) {
+        eprintln(ctx.input_path, node.value!.pos, settle_result.error);
+        return false;
+      }
+      if (node.op != '=' && target_untyped && settle_result.value) node.type = value_t_name;
+      if (!settle_result.value) {
+        const coerced = coerce_int(ctx, node.value!, value_t, target_t);
+        if (!coerced.ok) {
+          eprintln(ctx.input_path, node.value!.pos, coerced.error);
+          return false;
+        }
+        node.value = coerced.value;
+      }
+      if (node.op != '=' && !is_number(value_t)) {
+        eprintln(ctx.input_path, node.pos, `Right side of '${node.op}' is not a number but has type \`${value_t_name}\``);
+        return false;
+      }
+      if (!settle_result.value && !types_are_equivalent(target_t, value_t)) {
+        eprintln(ctx.input_path, node.pos, `Cannot assign \`${value_t_name}\` to '${name}' of type \`${target_t_name}\``);
+        if (target.loc) println(ctx.input_path, target.loc, 'Variable declared here');
+        return false;
       }
+
+      Ref.value = target_t;
       return true;
     };
 
@@ -1556,7 +3795,10 @@ export function check_types(
         eprintln(ctx.input_path, node.pos, prv_result.error ?? 'Failed to assume type of ' + node_debug_fmt(node.val));
         return false;
       }
-      let held = { T: prv_result.value, pos: node.val.pos };
+      // The piped struct is passed as a copy like any other argument
+      node.val = copy_struct(node.val, prv_result.value) ?? node.val;
+      // `node` is the call the chain turns into up to this step, it is what the next step gets piped
+      let held = { T: prv_result.value, pos: node.val.pos, node: node.val as AstExprNode };
       let piper = node.next;
       while (piper) {
         const pipe = piper;
@@ -1577,23 +3819,32 @@ export function check_types(
             return false;
           }
 
-          if (fn_t.args.length != call_node.args.length + 1) {
+          // The piped value goes where the `_` placeholder is or after every other argument
+          const hole = call_node.args.findIndex(is_pipe_placeholder);
+          const passed = hole == -1 ? call_node.args.length + 1 : call_node.args.length;
+          const piped_at = hole == -1 ? call_node.args.length : hole;
+          if (fn_t.args.length != passed) {
             const t_name = get_type_name(fn_var.type);
-            if (fn_t.args.length < call_node.args.length + 1 && !fn_t.variadic) {
+            if (fn_t.args.length < passed && !fn_t.variadic) {
               eprintln(ctx.input_path, call_node.pos, `Too many arguments passed to function ${call_node.name} of type \`${t_name}\``);
               return false;
             }
-            if (fn_t.args.length - (fn_t.variadic ? 1 : 0) > call_node.args.length + 1) {
+            if (fn_t.args.length - (fn_t.variadic ? 1 : 0) > passed) {
               eprintln(ctx.input_path, call_node.pos, `Insufficient arguments passed to function ${call_node.name} of type \`${t_name}\``);
               return false;
             }
           }
           if (fn_t.variadic) {
+            const format = piped_at == 0 ? prv.node : call_node.args[0];
+            if (format?.kind == AstNodeKind.Interp && is_printer(ctx, call_node.name)) {
+              eprintln(ctx.input_path, format.pos, `An interpolated format string can not be piped into '${call_node.name}', pass it as its only argument`);
+              return false;
+            }
             let failed = false;
-            for (let i = 0; i <= call_node.args.length; ++i) {
+            for (let i = 0; i < passed; ++i) {
               let carg_t: LangType;
               let pos: { line: number; column: number };
-              if (i < call_node.args.length) {
+              if (i != piped_at) {
                 const call_arg = call_node.args[i]!;
                 const carg_result = get_type(ctx, call_arg);
                 if (!carg_result.ok) {
@@ -1615,36 +3866,47 @@ export function check_types(
                 failed = true;
                 continue;
               }
+              if (i >= fn_t.args.length - 1 && !is_printable(carg_t)) {
+                eprintln(ctx.input_path, pos, not_printable_error(carg_t));
+                failed = true;
+                continue;
+              }
             }
             if (failed) return false;
             held = {
               T: fn_t.returns,
               pos: call_node.pos,
+              node: pipe_into(call_node, prv.node)!,
             };
             continue;
           }
 
-          if (fn_t.args.length != call_node.args.length + 1) {
+          if (fn_t.args.length != passed) {
             const line_pos = get_current_line();
             eprintln(__filename, { line: line_pos.line, column: line_pos.char }, 'Should have failed early cause function arity differs');
             return false;
           }
           let failed = false;
-          for (let i = 0; i < call_node.args.length; ++i) {
-            const call_arg = call_node.args[i]!;
-            const carg_result = get_type(ctx, call_arg);
-            if (!carg_result.ok) {
-              eprintln(ctx.input_path, call_arg.pos, carg_result.error ?? ('Failed to assume type of ' + node_debug_fmt(call_arg)));
-              failed = true;
-              continue;
+          for (let i = 0; i < passed; ++i) {
+            let carg_t = prv.T;
+            let pos = prv.pos;
+            if (i != piped_at) {
+              const call_arg = call_node.args[i]!;
+              const carg_result = get_type(ctx, call_arg);
+              if (!carg_result.ok) {
+                eprintln(ctx.input_path, call_arg.pos, carg_result.error ?? ('Failed to assume type of ' + node_debug_fmt(call_arg)));
+                failed = true;
+                continue;
+              }
+              carg_t = carg_result.value;
+              pos = call_arg.pos;
             }
-            const carg_t = carg_result.value;
             const earg_t = fn_t.args[i]!.type;
             if (!types_are_equivalent(earg_t, carg_t)) {
               const e_t = get_type_name(earg_t);
               const c_t = get_type_name(carg_t);
-              eprintln(ctx.input_path, call_arg.pos, `Invalid type used in function call, expected type '${e_t}' but got '${c_t}'`);
-              failed = false;
+              eprintln(ctx.input_path, pos, `Invalid type used in function call, expected type '${e_t}' but got '${c_t}'`);
+              failed = true;
               continue;
             }
           }
@@ -1652,11 +3914,29 @@ export function check_types(
           held = {
             T: fn_t.returns,
             pos: call_node.pos,
+            node: pipe_into(call_node, prv.node)!,
           };
 
           continue;
         }
 
+        if (pipe.val.kind == AstNodeKind.MethodCall) {
+          const call = pipe_into(pipe.val, prv.node) as MethodCallNode;
+          const call_result = get_type(ctx, call);
+          if (!call_result.ok) {
+            eprintln(ctx.input_path, pipe.val.pos, call_result.error);
+            return false;
+          }
+          // Code generation turns the chain into calls again, keep what was found about the method
+          pipe.val.receiver = call.receiver;
+          held = {
+            T: call_result.value,
+            pos: pipe.val.pos,
+            node: call,
+          };
+          continue;
+        }
+
         const val_node = pipe.val;
         const val_result = get_type(ctx, val_node);
         if (!val_result.ok) {
@@ -1700,6 +3980,7 @@ export function check_types(
         held = {
           T: val_t.returns,
           pos: val_node.pos,
+          node: pipe_into(val_node, prv.node)!,
         };
       }
 
@@ -1708,6 +3989,10 @@ export function check_types(
     };
 
     case AstNodeKind.FuncCall: {
+      if (is_result_ctor(node)) {
+        eprintln(ctx.input_path, node.pos, `The result built by \`${node.name}(..)\` is never used`);
+        return false;
+      }
       const fn = ctx.get_var(node.name);
       if (!fn) {
         const { line, column } = node.pos;
@@ -1721,7 +4006,12 @@ export function check_types(
         return false;
       }
 
-      const fn_t = fn.type;
+      const fn_t_result = instantiate_generic_call(ctx, fn.type, node);
+      if (!fn_t_result.ok) {
+        eprintln(ctx.input_path, node.pos, fn_t_result.error);
+        return false;
+      }
+      const fn_t = fn_t_result.value;
       if (node.args.length !== fn_t.args.length && fn_t.variadic == null) {
         const { line, column } = node.pos;
         const err = node.args.length < fn.type.args.length ? 'Insufficient arguments' : 'Too many arguments';
@@ -1748,7 +4038,33 @@ export function check_types(
           return false;
         }
         const passed_arg = result.value;
-        if (!types_are_equivalent(expects_arg, passed_arg)) {
+        if (fn_t.variadic && i >= fn_t.args.length - 1 && !is_printable(passed_arg)) {
+          eprintln(ctx.input_path, passed_node.pos, not_printable_error(passed_arg));
+          return false;
+        }
+        const wrapped = wrap_value(ctx, passed_node, expects_arg);
+        if (!wrapped.ok) {
+          eprintln(ctx.input_path, passed_node.pos, wrapped.error);
+          return false;
+        }
+        if (wrapped.value) {
+          node.args[i] = wrapped.value;
+          continue;
+        }
+        const settle_result = settle_int_type(ctx, passed_node, expects_arg);
+        if (!settle_result.ok) {
+          eprintln(ctx.input_path, passed_node.pos, settle_result.error);
+          return false;
+        }
+        if (!settle_result.value) {
+          const coerced = coerce_int(ctx, passed_node, passed_arg, expects_arg);
+          if (!coerced.ok) {
+            eprintln(ctx.input_path, passed_node.pos, coerced.error);
+            return false;
+          }
+          node.args[i] = coerced.value;
+        }
+        if (!settle_result.value && !types_are_equivalent(expects_arg, passed_arg)) {
           const { line, column } = node.args[i]!.pos;
           const e_t = get_type_name(expects_arg);
           const g_t = get_type_name(passed_arg);
@@ -1768,6 +4084,13 @@ export function check_types(
           }
         }
       }
+      if (is_printer(ctx, node.name)) {
+        const spread_result = spread_interp_format(node);
+        if (!spread_result.ok) {
+          eprintln(ctx.input_path, node.pos, spread_result.error);
+          return false;
+        }
+      }
       Ref.value = fn_t.returns;
       return true;
     };
@@ -1780,16 +4103,18 @@ export function check_types(
       }
 
       const fn_type = fn_type_result.value;
-      ctx.add_var({
-        loc: {
-          file: ctx.input_path,
-          line: node.pos.line,
-          column: node.pos.column,
-        },
-        name: node.name,
-        type: fn_type,
-        decl: node,
-      });
+      if (!node.receiver) {
+        ctx.add_var({
+          loc: {
+            file: ctx.input_path,
+            line: node.pos.line,
+            column: node.pos.column,
+          },
+          name: node.name,
+          type: fn_type,
+          decl: node,
+        });
+      }
 
       if (node.returns == '()') node.returns = get_type_name(fn_type.returns);
 
@@ -1798,22 +4123,8 @@ export function check_types(
         console.error(decl_result.error);
         return false;
       }
-      const { fn_ctx } = decl_result.value;
-
-      for (const n of node.body) {
-        if (n.kind == AstNodeKind.VarDecl) {
-          // console.log('[DEBUG] Type checking node', node.kind);
-          const tr = get_type(fn_ctx, n);
-          if (!tr.ok) {
-            console.error(tr.error ?? 'Failed to read of variable declaration and result has error set to null');
-            return false;
-          }
-          const t = tr.value;
-          n.type.name = get_type_name(t);
-          continue;
-        }
-        if (!check_types(fn_ctx, n, node)) return false;
-      }
+      if (!check_fn_body(decl_result.value.fn_ctx, node)) return false;
+      if (!settle_fn_ints(ctx, node)) return false;
 
       Ref.value = fn_type;
       return true;
@@ -1824,6 +4135,75 @@ export function check_types(
   return false;
 }
 
+// Untyped integers of a function take the type their usages agree on. The body is checked again once some
+// are settled, the expressions reading them and the variables they are assigned to then get their types
+function settle_fn_ints(ctx: TypesContext, node: FnDeclNode): boolean {
+  const decls = untyped_int_owners.get(node) ?? new Set();
+  for (;;) {
+    const settled = settle_untyped_ints(decls, false);
+    if (!settled.ok) {
+      report_int_conflict(settled.error);
+      return false;
+    }
+    if (!settled.value) break;
+    const decl_result = get_func_body_and_args_types(ctx.new_child_ctx(), node);
+    if (!decl_result.ok) {
+      console.error(decl_result.error);
+      return false;
+    }
+    if (!check_fn_body(decl_result.value.fn_ctx, node)) return false;
+  }
+  settle_untyped_ints(decls, true);
+  return true;
+}
+
+// Global untyped integers are read by every function of the module, they are settled once all of them are
+// checked and the functions are then checked again with the settled types
+export function settle_global_ints(ctx: TypesContext, nodes: SimpNode[]): boolean {
+  const decls = untyped_int_owners.get(ctx) ?? new Set();
+  for (;;) {
+    const settled = settle_untyped_ints(decls, false);
+    if (!settled.ok) {
+      report_int_conflict(settled.error);
+      return false;
+    }
+    if (!settled.value) break;
+    for (const n of nodes) {
+      if (n.kind == AstNodeKind.FuncDecl && !check_types(ctx, n)) return false;
+    }
+  }
+  settle_untyped_ints(decls, true);
+  return true;
+}
+
+// Checks the statements of a block in order, see `get_ctx_after`
+function check_block(ctx: TypesContext, body: SimpNode[], parent: SimpNode | null): boolean {
+  for (const n of body) {
+    if (!check_types(ctx, n, parent)) return false;
+    ctx = get_ctx_after(ctx, n);
+  }
+  return true;
+}
+
+function check_fn_body(fn_ctx: TypesContext, node: FnDeclNode): boolean {
+  for (const n of node.body) {
+    if (n.kind == AstNodeKind.VarDecl) {
+      // console.log('[DEBUG] Type checking node', node.kind);
+      const tr = get_type(fn_ctx, n);
+      if (!tr.ok) {
+        console.error(tr.error ?? 'Failed to read of variable declaration and result has error set to null');
+        return false;
+      }
+      const t = tr.value;
+      n.type.name = get_type_name(t);
+      continue;
+    }
+    if (!check_types(fn_ctx, n, node)) return false;
+    fn_ctx = get_ctx_after(fn_ctx, n);
+  }
+  return true;
+}
+
 export function register_global(ctx: TypesContext, node: SimpNode): Result<boolean, [string, ...string[]]> {
   switch (node.kind) {
     case AstNodeKind.FuncDecl: {
@@ -1837,13 +4217,39 @@ export function register_global(ctx: TypesContext, node: SimpNode): Result<boole
         .set_return(T.void);
       const errors = [] as unknown as [string, ...string[]];
       const fn_ctx = ctx.new_child_ctx();
+      fn_ctx.fn = node;
+      const generics_result = declare_generics(fn_ctx, node);
+      if (!generics_result.ok) return Result.Err([generics_result.error]);
+      let receiver_t: StructType | EnumType | null = null;
+      if (node.receiver) {
+        const receiver_result = get_receiver_type(fn_ctx, node, node.receiver);
+        if (!receiver_result.ok) return Result.Err([receiver_result.error]);
+        receiver_t = receiver_result.value;
+        const receiver_name = get_type_name(receiver_t);
+        if (receiver_t.methods.some(m => m.name == node.name)) {
+          return Result.Err([sprint(ctx.input_path, node.pos, `Method ${node.name} is already declared on \`${receiver_name}\``)]);
+        }
+        if (receiver_t.kind == 'struct' && receiver_t.fields.some(f => f.name == node.name)) {
+          return Result.Err([sprint(ctx.input_path, node.pos, `Method ${node.name} has the same name as a field of \`${receiver_name}\``)]);
+        }
+        fn_ctx.add_var({
+          decl: node.receiver,
+          name: node.receiver.name,
+          type: receiver_t,
+          loc: {
+            file: ctx.input_path,
+            line: node.receiver.pos.line,
+            column: node.receiver.pos.column,
+          },
+        });
+      }
       for (const arg_node of node.args) {
         if (arg_node.type == '()') {
           const { line, column } = arg_node.pos;
           errors.push(`${ctx.input_path}:${line}:${column}: Argument ${arg_node.name} has no provided type`);
           continue;
         }
-        const type_parse_result = parse_type_from_str(ctx, arg_node.type);
+        const type_parse_result = parse_type_from_str(fn_ctx, arg_node.type);
         if (!type_parse_result.ok) {
           const { line, column } = arg_node.pos;
           errors.push(`${ctx.input_path}:${line}:${column}: Failed to read type of argument ${arg_node.name}: ${type_parse_result.error}`);
@@ -1876,14 +4282,14 @@ export function register_global(ctx: TypesContext, node: SimpNode): Result<boole
       }
       const returns = returns_result.value;
 
-      if (returns.length > 0 && returns.every(r => r.expr && r.expr.kind == 'fncal' && r.expr.name == node.name)) {
+      if (returns.length > 0 && returns.every(r => r.node.expr && r.node.expr.kind == 'fncal' && r.node.expr.name == node.name)) {
         const { line, column } = node.pos;
         return Result.Err([
           `${ctx.input_path}:${line}:${column}: Cannot infer return type of an infinitely recursive function`
         ]);
       }
 
-      for (const ret_node of returns) {
+      for (const { node: ret_node, ctx: ret_ctx } of returns) {
         if (!ret_node.expr) {
           builder.set_return(T.void);
           break;
@@ -1892,20 +4298,20 @@ export function register_global(ctx: TypesContext, node: SimpNode): Result<boole
         const expr = ret_node.expr;
 
         if (expr.kind == AstNodeKind.Literal) {
-          const t = get_type(fn_ctx, expr).unwrap();
+          const t = get_type(ret_ctx, expr).unwrap();
           builder.set_return(t);
           break;
         }
 
-        if (expr.kind == AstNodeKind.FuncCall) {
-          if (!fn_ctx.var_exists(expr.name)) {
+        if (expr.kind == AstNodeKind.FuncCall && !is_result_ctor(expr)) {
+          if (!ret_ctx.var_exists(expr.name)) {
             if (expr.name === node.name) continue;
             const { line, column } = expr.pos;
             errors.push(`${ctx.input_path}:${line}:${column}: Attempting to call non-existent function ${expr.name}`);
             continue;
           }
 
-          const fn_var = fn_ctx.get_var(expr.name)!;
+          const fn_var = ret_ctx.get_var(expr.name)!;
           if (fn_var.type.kind != 'func') {
             const { line, column } = expr.pos;
             const tname = get_type_name(fn_var.type);
@@ -1916,18 +4322,34 @@ export function register_global(ctx: TypesContext, node: SimpNode): Result<boole
           break;
         }
 
-        const t_result = get_type(fn_ctx, expr);
+        const t_result = get_type(ret_ctx, expr);
         if (!t_result.ok) return Result.Err([sprint(ctx.input_path, expr.pos, t_result.error ?? 'Failed to assume type')]);
         const t = t_result.value;
         builder.set_return(t);
         break;
       }
 
+      // A declared return type wins over the type of the returned expressions
+      if (node.returns != '()') {
+        const declared_result = parse_type_from_str(fn_ctx, node.returns);
+        if (!declared_result.ok) {
+          errors.push(sprint(ctx.input_path, node.pos, `Failed to read the return type of ${node.name}: ${declared_result.error}`));
+        } else {
+          builder.set_return(declared_result.value);
+        }
+      }
+
       if (errors.length > 0) {
         return Result.Err(errors);
       }
 
-      ctx.set_global_var({
+      // Methods are only reachable through the values of their receiver type
+      if (receiver_t) {
+        receiver_t.methods.push({ name: node.name, type: builder.build() });
+        return Result.Ok(true);
+      }
+
+      ctx.add_var({
         decl: node,
         name: node.name,
         type: builder.build(),
@@ -1942,10 +4364,193 @@ export function register_global(ctx: TypesContext, node: SimpNode): Result<boole
 
     case AstNodeKind.VarDecl: {
       const result = register_variable(ctx, node);
-      if (!result.ok) return Result.Err([result.error]);
+      if (!result.ok) return Result.Err([sprint(ctx.input_path, node.pos, result.error)]);
+      return Result.Ok(true);
+    };
+
+    case AstNodeKind.StructDecl: {
+      const existing = ctx.get_type(node.name);
+      if (existing) {
+        const errors: [string, ...string[]] = [sprint(ctx.input_path, node.pos, `Re-declaring type ${node.name}`)];
+        if (existing.origin) errors.push(sprint(existing.origin.file, existing.origin, 'Originally declared here'));
+        return Result.Err(errors);
+      }
+
+      const builder = type_builder('struct')
+        .set_name(node.name)
+        .originates({
+          file: ctx.input_path,
+          line: node.pos.line,
+          column: node.pos.column,
+        });
+      const errors = [] as unknown as [string, ...string[]];
+      const declared = new Set<string>();
+      for (const field of node.fields) {
+        if (declared.has(field.name)) {
+          errors.push(sprint(ctx.input_path, field.pos, `Field ${field.name} is declared more than once in struct ${node.name}`));
+          continue;
+        }
+        declared.add(field.name);
+
+        const type_parse_result = parse_type_from_str(ctx, field.type);
+        if (!type_parse_result.ok) {
+          errors.push(sprint(ctx.input_path, field.pos, `Failed to read type of field ${field.name}: ${type_parse_result.error}`));
+          continue;
+        }
+        builder.add_field(field.name, type_parse_result.value);
+      }
+      if (errors.length > 0) {
+        return Result.Err(errors);
+      }
+
+      ctx.add_type(node.name, builder.build());
+      return Result.Ok(true);
+    };
+
+    case AstNodeKind.EnumDecl: {
+      const existing = ctx.get_type(node.name);
+      if (existing) {
+        const errors: [string, ...string[]] = [sprint(ctx.input_path, node.pos, `Re-declaring type ${node.name}`)];
+        if (existing.origin) errors.push(sprint(existing.origin.file, existing.origin, 'Originally declared here'));
+        return Result.Err(errors);
+      }
+
+      const builder = type_builder('enum')
+        .set_name(node.name)
+        .originates({
+          file: ctx.input_path,
+          line: node.pos.line,
+          column: node.pos.column,
+        });
+      const errors = [] as unknown as [string, ...string[]];
+      const declared = new Set<string>();
+      for (const value of node.values) {
+        if (declared.has(value.name)) {
+          errors.push(sprint(ctx.input_path, value.pos, `Value ${value.name} is declared more than once in enum ${node.name}`));
+          continue;
+        }
+        declared.add(value.name);
+
+        if (value.value == null) {
+          builder.add_value(value.name);
+        } else {
+          builder.add_value(value.name, value.value);
+        }
+      }
+      if (errors.length > 0) {
+        return Result.Err(errors);
+      }
+
+      const enum_t = builder.build();
+      // Resolve the implicit values so the codegens don't have to re-implement the numbering
+      for (let i = 0; i < node.values.length; ++i) {
+        node.values[i]!.value = enum_t.values[i]!.value;
+      }
+
+      ctx.add_type(node.name, enum_t);
+      return Result.Ok(true);
+    };
+
+    case AstNodeKind.UnionDecl: {
+      const existing = ctx.get_type(node.name);
+      if (existing) {
+        const errors: [string, ...string[]] = [sprint(ctx.input_path, node.pos, `Re-declaring type ${node.name}`)];
+        if (existing.origin) errors.push(sprint(existing.origin.file, existing.origin, 'Originally declared here'));
+        return Result.Err(errors);
+      }
+
+      const builder = type_builder('tagged-union')
+        .set_name(node.name)
+        .originates({
+          file: ctx.input_path,
+          line: node.pos.line,
+          column: node.pos.column,
+        });
+      const errors = [] as unknown as [string, ...string[]];
+      const declared = new Set<string>();
+      for (const variant of node.variants) {
+        if (declared.has(variant.name)) {
+          errors.push(sprint(ctx.input_path, variant.pos, `Variant ${variant.name} is declared more than once in union ${node.name}`));
+          continue;
+        }
+        declared.add(variant.name);
+
+        const held: LangType[] = [];
+        for (const type of variant.types) {
+          const type_parse_result = parse_type_from_str(ctx, type);
+          if (!type_parse_result.ok) {
+            errors.push(sprint(ctx.input_path, variant.pos, `Failed to read type held by variant ${variant.name}: ${type_parse_result.error}`));
+            continue;
+          }
+          held.push(type_parse_result.value);
+        }
+        builder.add_variant(variant.name, held);
+      }
+      if (errors.length > 0) {
+        return Result.Err(errors);
+      }
+
+      ctx.add_type(node.name, builder.build());
       return Result.Ok(true);
     };
   }
   return Result.Ok(false);
 }
 
+// Makes the declarations of an already type checked module visible in the context of the module importing it
+export function register_import(
+  ctx: TypesContext,
+  node: ImportNode,
+  module_ctx: TypesContext,
+  module_nodes: SimpNode[],
+): Result<boolean, [string, ...string[]]> {
+  const decls = new Map<string, SimpNode & { name: string }>();
+  for (const n of module_nodes) {
+    switch (n.kind) {
+      case AstNodeKind.FuncDecl:
+      case AstNodeKind.VarDecl:
+      case AstNodeKind.StructDecl:
+      case AstNodeKind.EnumDecl:
+      case AstNodeKind.UnionDecl:
+        decls.set(n.name, n);
+    }
+  }
+
+  const errors = [] as unknown as [string, ...string[]];
+  const names = node.names ?? decls.keys().filter(name => name != 'main').map(name => ({ name, pos: node.pos })).toArray();
+  for (const { name, pos } of names) {
+    const decl = decls.get(name);
+    if (!decl) {
+      errors.push(sprint(ctx.input_path, pos, `Module ${node.path} does not declare ${name}`));
+      continue;
+    }
+    if (name == 'main') {
+      errors.push(sprint(ctx.input_path, pos, 'The main function of a module can not be imported'));
+      continue;
+    }
+
+    if (decl.kind == AstNodeKind.FuncDecl || decl.kind == AstNodeKind.VarDecl) {
+      const v = module_ctx.get_var(name)!;
+      // Importing the same declaration twice is harmless
+      if (ctx.get_var(name) === v) continue;
+      if (ctx.has_var(name)) {
+        errors.push(sprint(ctx.input_path, pos, `Importing ${name} collides with another declaration of the same name`));
+        continue;
+      }
+      ctx.add_var(v);
+      continue;
+    }
+
+    const t = module_ctx.get_type(name)!;
+    if (ctx.get_type(name) === t) continue;
+    if (ctx.has_type(name)) {
+      errors.push(sprint(ctx.input_path, pos, `Importing ${name} collides with another type of the same name`));
+      continue;
+    }
+    ctx.add_type(name, t);
+  }
+
+  if (errors.length > 0) return Result.Err(errors);
+  return Result.Ok(true);
+}
+
@@ -1,7 +1,7 @@
 // @ts-ignore
 import getCurrentLine from 'get-current-line';
 
-import type { AstNode, Parser, VarDeclNode, FnDeclNode } from './parser';
+import type { AstNode, Parser, VarDeclNode, FnDeclNode, StructDeclNode, EnumDeclNode, UnionDeclNode } from './parser';
 
 export type Prettify<T> = { [K in keyof T]: T[K] } & unknown;
 
@@ -49,6 +49,7 @@ export const compiler_logger = {
 
 export interface CodeGen {
   imports: Set<string>;
+  types: Array<StructDeclNode | EnumDeclNode | UnionDeclNode>;
   vars: Array<VarDeclNode>;
   funcs: Array<FnDeclNode>;
   output_path: string;
@@ -59,7 +60,10 @@ export interface CodeGen {
 export type TargetCodeGenSetupConfig = {
   input_path: string;
   output_path: string;
+  // Nodes of every module in dependency order, so a module always comes after the modules it imports
   nodes: AstNode[];
+  modules: Array<{ name: string; nodes: AstNode[]; parser: Parser; }>;
+  // Parser of the entry module
   parser: Parser;
 };
 